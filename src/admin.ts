@@ -0,0 +1,364 @@
+import {timingSafeEqual} from 'crypto';
+import type {IncomingMessage, ServerResponse} from 'http';
+import {URL} from 'url';
+import type {CacheEntityRecord} from '@envelop/response-cache';
+import type {CacheFirestore} from './cache';
+import type {CleanupOptions} from './cleanup';
+import {DeletionStats, sumDeletionStats} from './stats';
+
+/** Request passed to the auth check */
+export type AdminRequest = {
+  method: string;
+  path: string; // without the base path and the query string
+  header(name: string): string | undefined;
+};
+
+export type AdminHandlerOptions = {
+  /**
+   * Allow the request or not, responds 401 on false
+   * Called for every request under basePath before routing.
+   */
+  authorize: (request: AdminRequest) => boolean | Promise<boolean>;
+
+  /**
+   * Path prefix of the routes like "/admin/cache"
+   * @defaultValue ""
+   */
+  basePath?: string;
+
+  /**
+   * Maximum bytes of request bodies, responds 413 on exceeding
+   * @defaultValue 1048576 (1 MiB)
+   */
+  maxBodyBytes?: number;
+
+  /**
+   * Called with errors responded as 500, whose messages are not sent to callers
+   * @defaultValue undefined
+   */
+  onError?: (error: unknown, request: AdminRequest) => void;
+};
+
+/** Subset of fetch Request read by the handler */
+export type FetchRequest = {
+  method: string;
+  url: string;
+  headers: {get(name: string): string | null};
+  body?: {getReader(): BodyReader} | null;
+  text(): Promise<string>;
+};
+
+/** Subset of ReadableStreamDefaultReader of fetch Request bodies */
+type BodyReader = {
+  read(): Promise<{done: boolean; value?: Uint8Array}>;
+  cancel(): Promise<void>;
+};
+
+/** Subset of fetch Response returned by the handler */
+export type FetchResponse = {
+  status: number;
+  json(): Promise<unknown>;
+};
+
+export type AdminHandler = {
+  /** Handle requests of Node http, Express or Cloud Functions */
+  node(req: IncomingMessage, res: ServerResponse): Promise<void>;
+
+  /** Handle fetch Requests, requires the global Response of Node 18 or later */
+  fetch(request: FetchRequest): Promise<FetchResponse>;
+};
+
+type AdminResponse = {
+  status: number;
+  body: unknown;
+};
+
+type ResponseConstructor = new (
+  body: string,
+  init: {status: number; headers: Record<string, string>}
+) => FetchResponse;
+
+type InvalidateBody = {
+  entities?: CacheEntityRecord[];
+  typenames?: string[];
+  tags?: string[];
+};
+
+class AdminError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Allow requests having `Authorization: Bearer <token>`.
+ */
+export function authorizeBearer(
+  token: string
+): AdminHandlerOptions['authorize'] {
+  const expected = Buffer.from(`Bearer ${token}`);
+  return request => {
+    const actual = Buffer.from(request.header('authorization') ?? '');
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    );
+  };
+}
+
+/**
+ * Creates a request handler of the routes below, which respond JSON.
+ *
+ * - `POST /invalidate` with `{entities, typenames, tags}` resolves DeletionStats
+ * - `POST /purge-expired` with CleanupOptions resolves CleanupResult
+ * - `GET /stats` resolves pending writes and the circuit state
+ *
+ * POST requests must have a JSON content type.
+ */
+export function createAdminHandler(
+  cache: CacheFirestore,
+  options: AdminHandlerOptions
+): AdminHandler {
+  const basePath = (options.basePath ?? '').replace(/\/+$/, '');
+  const maxBodyBytes = options.maxBodyBytes ?? 1024 * 1024;
+
+  async function handle(
+    request: AdminRequest,
+    readBody: () => Promise<unknown>
+  ): Promise<AdminResponse> {
+    try {
+      if (!request.path.startsWith(`${basePath}/`)) {
+        throw new AdminError(404, 'not found');
+      }
+      const path = request.path.slice(basePath.length);
+      // not to tell unauthorized callers which routes exist
+      if (!(await options.authorize({...request, path}))) {
+        throw new AdminError(401, 'unauthorized');
+      }
+      const route = routes[path];
+      if (!route) throw new AdminError(404, 'not found');
+      if (request.method !== route.method) {
+        throw new AdminError(405, 'method not allowed');
+      }
+
+      if (route.method === 'POST' && !isJson(request.header('content-type'))) {
+        // body parsers leave other bodies empty, which would be a no-op
+        throw new AdminError(415, 'content-type must be application/json');
+      }
+      // not to read bodies known to be too large
+      if (Number(request.header('content-length')) > maxBodyBytes) {
+        throw new AdminError(413, 'payload too large');
+      }
+      const body = route.method === 'POST' ? await readBody() : {};
+      return {status: 200, body: await route.run(body)};
+    } catch (e) {
+      if (e instanceof AdminError) {
+        return {status: e.status, body: {error: e.message}};
+      }
+      options.onError?.(e, request);
+      return {status: 500, body: {error: 'internal error'}};
+    }
+  }
+
+  const routes: Record<
+    string,
+    {method: 'GET' | 'POST'; run(body: unknown): Promise<unknown>}
+  > = {
+    '/invalidate': {
+      method: 'POST',
+      async run(body) {
+        const {
+          entities = [],
+          typenames = [],
+          tags = [],
+        } = validateInvalidate(body);
+        const stats: DeletionStats[] = [];
+        const records = [
+          ...entities,
+          ...typenames.map(typename => ({typename})),
+        ];
+        if (records.length > 0) stats.push(await cache.invalidate(records));
+        if (tags.length > 0) stats.push(await cache.invalidateTags(tags));
+        return sumDeletionStats(stats);
+      },
+    },
+
+    '/purge-expired': {
+      method: 'POST',
+      run(body) {
+        return cache.deleteExpiredCacheEntry(validateCleanup(body));
+      },
+    },
+
+    '/stats': {
+      method: 'GET',
+      async run() {
+        return {
+          pendingWrites: cache.pendingWrites(),
+          circuitState: cache.circuitState() ?? null,
+        };
+      },
+    },
+  };
+
+  return {
+    async node(req, res) {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const request: AdminRequest = {
+        method: req.method ?? 'GET',
+        path: url.pathname,
+        header: name => {
+          const value = req.headers[name.toLowerCase()];
+          return Array.isArray(value) ? value.join(', ') : value;
+        },
+      };
+      const {status, body} = await handle(request, async () => {
+        // Express and Cloud Functions consume the stream to parse the body
+        const parsed = (req as IncomingMessage & {body?: unknown}).body;
+        if (typeof parsed === 'string') return parse(parsed);
+        if (parsed !== undefined) return parsed;
+        return parse(await readStream(req, maxBodyBytes));
+      });
+
+      res.statusCode = status;
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(body));
+    },
+
+    async fetch(req) {
+      const request: AdminRequest = {
+        method: req.method,
+        path: new URL(req.url).pathname,
+        header: name => req.headers.get(name) ?? undefined,
+      };
+      const {status, body} = await handle(request, async () => {
+        if (req.body) return parse(await readBody(req.body, maxBodyBytes));
+        const text = await req.text();
+        if (Buffer.byteLength(text) > maxBodyBytes) {
+          throw new AdminError(413, 'payload too large');
+        }
+        return parse(text);
+      });
+
+      const Response = (global as unknown as {Response: ResponseConstructor})
+        .Response;
+      return new Response(JSON.stringify(body), {
+        status,
+        headers: {'content-type': 'application/json'},
+      });
+    },
+  };
+}
+
+function readStream(req: IncomingMessage, maxBytes: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.destroy();
+        reject(new AdminError(413, 'payload too large'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+async function readBody(
+  body: {getReader(): BodyReader},
+  maxBytes: number
+): Promise<string> {
+  const reader = body.getReader();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for (;;) {
+    const {done, value} = await reader.read();
+    if (done) break;
+    if (!value) continue;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new AdminError(413, 'payload too large');
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function isJson(contentType: string | undefined): boolean {
+  const type = contentType?.split(';')[0].trim().toLowerCase();
+  return type === 'application/json' || !!type?.endsWith('+json');
+}
+
+function parse(text: string): unknown {
+  if (text.trim() === '') return {};
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new AdminError(400, 'invalid JSON');
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStrings(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function validateInvalidate(body: unknown): InvalidateBody {
+  if (!isObject(body)) throw new AdminError(400, 'body must be an object');
+  const {entities, typenames, tags} = body;
+  if (
+    entities !== undefined &&
+    !(
+      Array.isArray(entities) &&
+      entities.every(
+        e =>
+          isObject(e) &&
+          typeof e.typename === 'string' &&
+          (e.id === undefined ||
+            typeof e.id === 'string' ||
+            typeof e.id === 'number')
+      )
+    )
+  ) {
+    throw new AdminError(400, 'entities must be [{typename, id?}]');
+  }
+  if (typenames !== undefined && !isStrings(typenames)) {
+    throw new AdminError(400, 'typenames must be strings');
+  }
+  if (tags !== undefined && !isStrings(tags)) {
+    throw new AdminError(400, 'tags must be strings');
+  }
+  return body as InvalidateBody;
+}
+
+function validateCleanup(body: unknown): CleanupOptions {
+  if (!isObject(body)) throw new AdminError(400, 'body must be an object');
+  for (const key of [
+    'timeBudgetMs',
+    'maxDocuments',
+    'batchSize',
+    'concurrency',
+  ]) {
+    const value = body[key];
+    if (value !== undefined && !(typeof value === 'number' && value > 0)) {
+      throw new AdminError(400, `${key} must be a positive number`);
+    }
+  }
+  if (body.dryRun !== undefined && typeof body.dryRun !== 'boolean') {
+    throw new AdminError(400, 'dryRun must be a boolean');
+  }
+  if (
+    body.cursor !== undefined &&
+    !(isObject(body.cursor) && typeof body.cursor.phase === 'string')
+  ) {
+    throw new AdminError(400, 'cursor must be returned by purge-expired');
+  }
+  return body as CleanupOptions;
+}
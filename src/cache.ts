@@ -1,18 +1,126 @@
-import type {Cache} from '@envelop/response-cache';
+import type {Readable, Writable} from 'stream';
+import type {Cache, CacheEntityRecord} from '@envelop/response-cache';
 import type {
+  CollectionReference,
   DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
   Firestore,
   FirestoreDataConverter,
   Query,
   QueryDocumentSnapshot,
 } from '@google-cloud/firestore';
 import {FieldPath, Timestamp} from '@google-cloud/firestore';
+import type {ExecutionResult} from 'graphql';
 import chunk from 'lodash.chunk';
+import {
+  ChunkInfo,
+  chunkDocs,
+  chunkRefs,
+  defaultChunkSize,
+  joinChunks,
+  splitPayload,
+  staleChunkRefs,
+  storedChunks,
+} from './chunking';
+import {
+  CompressionAlgorithm,
+  CompressionOptions,
+  decodePayload,
+  encodePayload,
+} from './compression';
+import {
+  CircuitState,
+  createCircuitBreaker,
+  FailOpenOptions,
+} from './circuit-breaker';
+import {CleanupOptions, CleanupPhase, CleanupResult, sweep} from './cleanup';
+import {createComputationTracker, defaultMaxComputationMs} from './computation';
+import {createDocumentIdBuilder, DocumentIdStrategy} from './document-id';
+import {createEntityIndex, EntityIndexMode} from './entity-index';
+import {expiresEarly, jitterTtl} from './expiration';
+import type {CacheHooks, ErrorEvent} from './hooks';
+import {
+  createInvalidationLog,
+  InvalidationLogOptions,
+  InvalidationTargets,
+} from './invalidation-log';
+import {
+  CountEntriesOptions,
+  countQuery,
+  EntryFilter,
+  EntryMetadata,
+  ListEntriesOptions,
+  ListEntriesResult,
+  metadataFields,
+} from './inspection';
+import {createLeaseStore, LeaseOptions} from './lease';
+import {createMemoryCache, MemoryCacheOptions} from './memory';
+import {
+  createOperationRegistry,
+  describeOperation,
+  joinScope,
+  ResponseCacheParameters,
+  splitScope,
+} from './operation';
+import {createPartitions, PartitionOptions} from './partition';
+import {createPendingTracker, withTimeout} from './pending';
+import {
+  ExportResult,
+  ImportOptions,
+  ImportResult,
+  importedExpireAt,
+  readRecords,
+  SnapshotRecord,
+  writeLine,
+} from './snapshot';
+import {
+  createDeletionStatsRecorder,
+  DeleteResult,
+  DeletionStats,
+} from './stats';
+import {createTrace, Trace, Tracer, untraced} from './tracing';
+import {
+  createVersionStore,
+  Generations,
+  invalidatedSince,
+  InvalidationMode,
+  versionKeys,
+} from './versions';
+import {createWriteBehind, WriteBehindOptions} from './write-behind';
 
 export type BuildEntityId = (typename: string, id: number | string) => string;
 
 export type BuildOperationResultCacheKey = (responseId: string) => string;
 
+export type CollectionPathResolver = (context: unknown) => string;
+
+export type StaleEvent = {
+  id: string; // response id
+  expireAt: Date;
+};
+
+export type ExtractTagsParams = {
+  id: string; // response id
+  data: ExecutionResult;
+  entities: CacheEntityRecord[];
+  context: unknown; // contextValue of the execution, requires responseCacheParameters
+};
+
+export type ExtractTags = (params: ExtractTagsParams) => Iterable<string>;
+
+export type StaleWhileRevalidateOptions = {
+  /**
+   * Time in ms to keep serving entries after they expired
+   */
+  graceMs: number;
+
+  /**
+   * Called when an expired entry is served, to refresh it in background
+   */
+  onStale?: (event: StaleEvent) => void;
+};
+
 export type FirestoreCacheParameters = {
   /**
    * Firestore instance to store cache
@@ -22,9 +130,19 @@ export type FirestoreCacheParameters = {
 
   /**
    * Firestore collection path to store cache entries
+   * A resolver routes each execution by its context to a collection like `tenants/${id}/responseCache`,
+   * which requires `responseCacheParameters()` passed to useResponseCache. Executions not associated
+   * with their context are not cached then, and `invalidate` applies to all resolved collections.
+   * @defaultValue "responseCache"
+   */
+  collectionPath?: string | CollectionPathResolver;
+
+  /**
+   * Collection id of the collections resolved by the collectionPath resolver, for collection group queries
+   * Other collections are derived from this, like `${collectionGroup}Versions`.
    * @defaultValue "responseCache"
    */
-  collectionPath?: string;
+  collectionGroup?: string;
 
   /**
    * Customize entity id string conversion for invalidation (usually not required to use)
@@ -32,20 +150,324 @@ export type FirestoreCacheParameters = {
    * @defaultValue ({typename, id}) => `${typename}#${id}`
    */
   buildEntityId?: BuildEntityId;
+
+  /**
+   * Compress payloads with node zlib before storing (disabled by default)
+   * Entries stored without compression are still readable after enabling this.
+   * @defaultValue undefined
+   */
+  compression?: CompressionOptions;
+
+  /**
+   * Maximum payload bytes stored in a cache entry document
+   * Larger payloads are split into documents of the "chunks" subcollection.
+   * Payloads exceeding 9 MiB or 499 chunks are not stored, as the entry and its chunks are written in a commit.
+   * @defaultValue 921600 (900 KiB)
+   */
+  chunkSize?: number;
+
+  /**
+   * Keep entries in an in-process LRU cache in front of Firestore (disabled by default)
+   * @defaultValue undefined
+   */
+  memory?: MemoryCacheOptions;
+
+  /**
+   * Record invalidations to a collection to propagate them to other instances (disabled by default)
+   * Call `listenInvalidationLog` on each instance to evict its in-memory entries.
+   * @defaultValue undefined
+   */
+  invalidationLog?: InvalidationLogOptions;
+
+  /**
+   * How `invalidate` drops entries
+   * - "delete": delete matching entries by queries
+   * - "version": increment generation counters of typenames and entities,
+   *   entries written with older generations are treated as miss.
+   *   Entries are physically deleted by TTL policies or `deleteExpiredCacheEntry`.
+   * @defaultValue "delete"
+   */
+  invalidationMode?: InvalidationMode;
+
+  /**
+   * Firestore collection path to store generation counters and invalidation timestamps
+   * of typenames and entities, used by "version" invalidation mode and `staleWriteProtection`
+   * @defaultValue `${collectionPath}Versions`
+   */
+  versionCollectionPath?: string;
+
+  /**
+   * Ignore writes of responses computed before the latest invalidation of their entities
+   * The computation is regarded as started when `get` missed.
+   * @defaultValue false
+   */
+  staleWriteProtection?: boolean;
+
+  /**
+   * Serve expired entries within the grace period (disabled by default)
+   * Expired entries are deleted after the grace period.
+   * @defaultValue undefined
+   */
+  staleWhileRevalidate?: StaleWhileRevalidateOptions;
+
+  /**
+   * Let only one instance recompute a missing or expired entry (disabled by default)
+   * Others wait for the entry written, or serve the stale one within the grace period.
+   * @defaultValue undefined
+   */
+  lease?: LeaseOptions;
+
+  /**
+   * Ratio to shorten TTL randomly, to spread expiration of entries written at once
+   * e.g. 0.1 makes TTL 90%-100% of the given one
+   * @defaultValue 0
+   */
+  ttlJitter?: number;
+
+  /**
+   * Expire entries early by probability considering how long the computation took (XFetch)
+   * Larger value expires earlier, 1 is recommended. Early expired entries are treated as
+   * stale with `lease` or `staleWhileRevalidate`, otherwise as miss.
+   * @defaultValue 0 (disabled)
+   */
+  earlyExpirationBeta?: number;
+
+  /**
+   * Buffer writes for a short time and send them through BulkWriter (disabled by default)
+   * Writes to the same entry in the buffer are deduplicated. Chunked entries and writes
+   * with `staleWriteProtection` are sent immediately.
+   * @defaultValue undefined
+   */
+  writeBehind?: WriteBehindOptions;
+
+  /**
+   * How to convert response cache keys to document ids
+   * Keys containing "/", longer than 1500 bytes or like "__foo__" are invalid as document ids.
+   * Unless "raw", the original key is stored in the entry to check collisions.
+   * @defaultValue "raw"
+   */
+  documentIdStrategy?: DocumentIdStrategy;
+
+  /**
+   * Where to store entity ids of entries for invalidation
+   * - "array": `entityIds` array field of entries
+   * - "collection": documents mapping entity ids to entries in the index collection,
+   *   for entries containing many entities. Entries read from Firestore are not kept
+   *   in `memory` because their entity ids are unknown. Writes query the index documents of
+   *   the entry to delete those of entities it no longer contains.
+   * Entries written in "array" mode are still invalidated in "collection" mode.
+   * @defaultValue "array"
+   */
+  entityIndex?: EntityIndexMode;
+
+  /**
+   * Firestore collection path to store entity index documents
+   * @defaultValue `${collectionPath}Index`
+   */
+  indexCollectionPath?: string;
+
+  /**
+   * Derive custom tags of a response to invalidate it by `invalidateTags`
+   * Pass `responseCacheParameters()` to useResponseCache to receive the execution context.
+   * @defaultValue undefined
+   */
+  extractTags?: ExtractTags;
+
+  /**
+   * Store operation name, document hash and root field coordinates of responses
+   * to invalidate them by `invalidateOperations` and `invalidateCoordinates`
+   * Requires `responseCacheParameters()` passed to useResponseCache.
+   * @defaultValue false
+   */
+  operationMetadata?: boolean;
+
+  /**
+   * Partition entries by session or a resolved key to invalidate them by `invalidateSession`
+   * (disabled by default). Requires `responseCacheParameters()` passed to useResponseCache.
+   * @defaultValue undefined
+   */
+  partition?: PartitionOptions;
+
+  /**
+   * Callbacks to observe hits, misses, writes, invalidations and errors
+   * @defaultValue undefined
+   */
+  hooks?: CacheHooks;
+
+  /**
+   * OpenTelemetry tracer to record spans of cache operations and Firestore RPCs
+   * e.g. `trace.getTracer('response-cache')` of @opentelemetry/api
+   * @defaultValue undefined
+   */
+  tracer?: Tracer;
+
+  /**
+   * Treat errors of `get` and `set` as misses instead of throwing them (disabled by default)
+   * Errors are reported to `hooks.onError`.
+   * @defaultValue undefined
+   */
+  failOpen?: FailOpenOptions;
 };
 
-export type CacheFirestore = Cache & {
-  deleteExpiredCacheEntry(): Promise<unknown>;
+export type CacheFirestore = Omit<Cache, 'invalidate'> & {
+  /**
+   * Invalidate entries of the entities and resolve the deletion statistics.
+   */
+  invalidate(entities: Iterable<CacheEntityRecord>): Promise<DeletionStats>;
+  // the signature of Cache, not to resolve void on calls
+  invalidate(entities: Iterable<CacheEntityRecord>): Promise<void> | void;
+
+  /**
+   * Delete expired entries and documents of other collections, and resolve the deletion statistics.
+   * Resolves a cursor to resume from when it stops within the budget of the options.
+   */
+  deleteExpiredCacheEntry(options?: CleanupOptions): Promise<CleanupResult>;
+
+  /**
+   * Start listening to the invalidation log and evict matching in-memory entries.
+   * Returns a function to stop listening.
+   */
+  listenInvalidationLog(): () => void;
+
+  /**
+   * Number of writes and deletions not completed yet.
+   */
+  pendingWrites(): number;
+
+  /**
+   * State of the circuit breaker of `failOpen`, undefined if it is disabled.
+   */
+  circuitState(): CircuitState | undefined;
+
+  /**
+   * Send writes buffered by the `writeBehind` option and wait for pending writes.
+   * Resolves false if they are not completed in timeoutMs.
+   */
+  flush(timeoutMs?: number): Promise<boolean>;
+
+  /**
+   * Stop listening to the invalidation log and flush pending writes.
+   */
+  close(timeoutMs?: number): Promise<boolean>;
+
+  /**
+   * Invalidate entries having any of the tags given by `extractTags`.
+   */
+  invalidateTags(tags: Iterable<string>): Promise<DeletionStats>;
+
+  /**
+   * Invalidate entries of the operations by name, requires `operationMetadata`.
+   */
+  invalidateOperations(
+    operationNames: Iterable<string>
+  ): Promise<DeletionStats>;
+
+  /**
+   * Invalidate entries selecting any of the root fields like "Query.users",
+   * requires `operationMetadata`.
+   */
+  invalidateCoordinates(coordinates: Iterable<string>): Promise<DeletionStats>;
+
+  /**
+   * Invalidate entries of the partition, which is the session by default,
+   * requires `partition`.
+   */
+  invalidateSession(sessionId: string): Promise<DeletionStats>;
+
+  /**
+   * Delete all entries of the collection resolved from the context by the collectionPath resolver,
+   * or of the collection when collectionPath is a string. In-memory entries are cleared.
+   */
+  purgeCollection(context?: unknown): Promise<void>;
+
+  /**
+   * Read the metadata of the entry without its payload, undefined if not stored.
+   * Entries in partition subcollections require their partition.
+   */
+  getEntryMetadata(
+    key: string,
+    partition?: string
+  ): Promise<EntryMetadata | undefined>;
+
+  /**
+   * Read the response and metadata of the entry, undefined if not stored or its chunks are missing.
+   * Unlike `get`, expired entries are returned without deletion, and neither hooks nor leases are involved.
+   */
+  peekEntry(
+    key: string,
+    partition?: string
+  ): Promise<{data: ExecutionResult; metadata: EntryMetadata} | undefined>;
+
+  /**
+   * List metadata of entries ordered by document path, a page at a time.
+   */
+  listEntries(options?: ListEntriesOptions): Promise<ListEntriesResult>;
+
+  /**
+   * Count entries matched to the filter, including expired ones not deleted yet.
+   */
+  countEntries(options?: CountEntriesOptions): Promise<number>;
+
+  /**
+   * Write entries matched to the filter to the stream as newline-delimited JSON.
+   * The stream is not ended.
+   */
+  exportEntries(stream: Writable, filter?: EntryFilter): Promise<ExportResult>;
+
+  /**
+   * Write entries read from newline-delimited JSON of exportEntries in batches.
+   * Payloads are encoded by the options of this cache.
+   */
+  importEntries(
+    stream: Readable,
+    options?: ImportOptions
+  ): Promise<ImportResult>;
+
+  /**
+   * Parameters for useResponseCache to associate cache keys with their executions.
+   * Wraps the given `getDocumentString` and `buildResponseCacheKey`.
+   */
+  responseCacheParameters(
+    params?: Partial<ResponseCacheParameters>
+  ): ResponseCacheParameters;
 };
 
 type CacheEntry = {
-  payload: string; // JSON
+  payload: string | Buffer; // JSON, or compressed JSON bytes
+  encoding?: CompressionAlgorithm; // present when payload is compressed
+  chunks?: ChunkInfo; // present when payload is stored in chunk documents
   expireAt: Date | null;
   typenames: string[]; // Set of typename
   entityIds: string[]; // Set of entityId
+  generations?: Generations; // present in "version" invalidation mode
+  startedAt?: Date; // when the computation of the response started
+  computeMs?: number; // time taken from startedAt to set
+  key?: string; // original response cache key unless documentIdStrategy is "raw"
+  entityIndexed?: boolean; // entityIds are stored in the index collection instead
+  entityCount?: number; // present when entityIndexed
+  bytes?: number; // size of the stored payload including chunks
+  tags?: string[]; // present when extractTags is given
+  operationName?: string; // present with operationMetadata, unless anonymous
+  documentHash?: string; // present with operationMetadata
+  coordinates?: string[]; // present with operationMetadata
+  partition?: string; // present when the partition is resolved
+};
+
+type Location = {
+  ref: DocumentReference<CacheEntry>;
+  partition?: string;
 };
 
-type CacheEntryFS = Omit<CacheEntry, 'expireAt'> & {expireAt: Timestamp};
+type Found = {
+  data: ExecutionResult;
+  stale: boolean; // expired but within the grace period
+  expireAt: Date | null;
+};
+
+type CacheEntryFS = Omit<CacheEntry, 'expireAt' | 'startedAt'> & {
+  expireAt: Timestamp;
+  startedAt?: Timestamp;
+};
 
 const converter: FirestoreDataConverter<CacheEntry> = {
   toFirestore(entry: CacheEntry): DocumentData {
@@ -56,109 +478,1132 @@ const converter: FirestoreDataConverter<CacheEntry> = {
     return {
       ...data,
       expireAt: data.expireAt ? data.expireAt.toDate() : null,
+      startedAt: data.startedAt?.toDate(),
     };
   },
 };
 
 export const defaultCollectionPath = 'responseCache';
 
+const exportPageSize = 100;
+
+// Firestore limits a batch to 500 writes and 10 MiB of the request
+const maxBatchWrites = 500;
+const maxBatchBytes = 8 * 1024 * 1024;
+
 export function createFirestoreCache(
   params: FirestoreCacheParameters
 ): CacheFirestore {
   const db = params.firestore;
-  const collectionPath = params.collectionPath ?? defaultCollectionPath;
+  const resolveCollectionPath =
+    typeof params.collectionPath === 'function'
+      ? params.collectionPath
+      : undefined;
+  const collectionPath =
+    typeof params.collectionPath === 'string'
+      ? params.collectionPath
+      : params.collectionGroup ?? defaultCollectionPath;
+  const collectionId = collectionPath.split('/').pop() ?? collectionPath;
   const collection = db.collection(collectionPath).withConverter(converter);
+  if (resolveCollectionPath && params.partition?.collectionPath) {
+    throw new Error(
+      'partition.collectionPath is not available with the collectionPath resolver'
+    );
+  }
 
   const buildEntityId = params?.buildEntityId ?? defaultBuildEntityId;
+  const chunkSize = params.chunkSize ?? defaultChunkSize;
+  const memory = params.memory ? createMemoryCache(params.memory) : undefined;
+  const invalidationLog = params.invalidationLog
+    ? createInvalidationLog(db, collectionPath, params.invalidationLog)
+    : undefined;
+  const versioned = params.invalidationMode === 'version';
+  const staleWriteProtection = params.staleWriteProtection ?? false;
+  const maxComputationMs = params.lease?.ttl ?? defaultMaxComputationMs;
+  const versions =
+    versioned || staleWriteProtection
+      ? createVersionStore(
+          db,
+          params.versionCollectionPath ?? `${collectionPath}Versions`,
+          maxComputationMs
+        )
+      : undefined;
+  const computations = createComputationTracker(maxComputationMs);
+  const graceMs = params.staleWhileRevalidate?.graceMs ?? 0;
+  const leases = params.lease
+    ? createLeaseStore(db, collectionPath, params.lease)
+    : undefined;
+  const writeBehind = params.writeBehind
+    ? createWriteBehind(db, params.writeBehind)
+    : undefined;
+  const pending = createPendingTracker();
+  const documentIdStrategy = params.documentIdStrategy ?? 'raw';
+  const documentId = createDocumentIdBuilder(documentIdStrategy);
+  const entityIndex =
+    params.entityIndex === 'collection'
+      ? createEntityIndex(
+          db,
+          params.indexCollectionPath ?? `${collectionPath}Index`,
+          db.collection(collectionPath)
+        )
+      : undefined;
+  const listeners = new Set<() => void>();
+  const partitions = params.partition
+    ? createPartitions(collectionId, params.partition)
+    : undefined;
+  const operations = createOperationRegistry(
+    resolveCollectionPath && (args => resolvePath(args.contextValue)),
+    partitions &&
+      ((id, operation) =>
+        partitions.resolve({
+          id,
+          sessionId: operation.sessionId ?? null,
+          context: operation.args.contextValue,
+        }))
+  );
+  const subcollections = !!params.partition?.subcollections;
+  const hooks = params.hooks ?? {};
+  const trace = createTrace(params.tracer);
+  const breaker = params.failOpen?.circuitBreaker
+    ? createCircuitBreaker(params.failOpen.circuitBreaker)
+    : undefined;
+  // entries of all partitions and resolved collections
+  const grouped = subcollections || !!resolveCollectionPath;
+  const entryGroup = grouped
+    ? db.collectionGroup(collectionId).withConverter(converter)
+    : collection;
 
-  return {
-    async set(id, data, entities, ttl) {
-      const ref = collection.doc(id);
+  function entries(
+    path: string,
+    partition: string | undefined
+  ): CollectionReference<CacheEntry> {
+    const resolved = partitions
+      ? partitions.collectionPath(path, partition)
+      : path;
+    if (resolved === collectionPath) return collection;
+    return db.collection(resolved).withConverter(converter);
+  }
+
+  // undefined when the collection is not resolved for the key
+  function locate(id: string): Location | undefined {
+    // resolved with the key, which includes the partition
+    const partition = operations.get(id)?.partition;
+    const ref = refOf(id, partition);
+    return ref && {ref, partition};
+  }
+
+  function inGroup(path: string): boolean {
+    return path.split('/').pop() === collectionId;
+  }
+
+  function resolvePath(context: unknown): string {
+    const path = (resolveCollectionPath as CollectionPathResolver)(context);
+    if (!inGroup(path)) {
+      throw new Error(
+        `resolved collection path "${path}" must end with "${collectionId}"`
+      );
+    }
+    return path;
+  }
+
+  function refOf(
+    id: string,
+    partition: string | undefined
+  ): DocumentReference<CacheEntry> | undefined {
+    let path = collectionPath;
+    let key = id;
+    if (resolveCollectionPath) {
+      const scoped = splitScope(id);
+      if (!scoped) return undefined;
+      [path, key] = scoped;
+      // outside collection group queries, which could not invalidate the entry
+      if (!inGroup(path)) return undefined;
+    }
+    return entries(path, partition).doc(documentId(key));
+  }
+
+  // the key given to the cache, reversing refOf
+  function keyOf(snapshot: DocumentSnapshot): string {
+    const key: string | undefined = snapshot.get('key');
+    if (key !== undefined) return key;
+    if (!resolveCollectionPath) return snapshot.id;
+
+    let parent = snapshot.ref.parent;
+    if (subcollections && snapshot.get('partition') !== undefined) {
+      // `${path}Partitions/${partition}/${collectionId}`
+      const base = parent.parent?.parent.path ?? '';
+      parent = db.collection(base.replace(/Partitions$/, ''));
+    }
+    return joinScope(parent.path, snapshot.id);
+  }
+
+  // by generation counters, which are not deleted by invalidate in "version" mode
+  async function invalidatedAfterWrite(entry: CacheEntry): Promise<boolean> {
+    const {generations} = entry;
+    // entries written before switching to "version" mode cannot be checked
+    if (!generations) return versioned;
+    if (!versions) return false;
+    return trace(
+      'firestore.getAll',
+      {count: Object.keys(generations).length},
+      () => versions.isStale(generations)
+    );
+  }
+
+  async function read(
+    id: string,
+    {ref, partition}: Location
+  ): Promise<Found | undefined> {
+    const snapshot = await trace('firestore.get', {path: ref.path}, () =>
+      ref.get()
+    );
+    if (!snapshot.exists) return undefined;
 
-      const typenames = new Set<string>();
-      const entityIds = new Set<string>();
-      for (const {typename, id} of entities) {
+    const entry = snapshot.data();
+    if (!entry) return undefined;
+    if (entry.key !== undefined && entry.key !== id) return undefined; // collision
+
+    const {encoding, chunks, expireAt, computeMs} = entry;
+    const expired = !!expireAt && expireAt.getTime() <= Date.now();
+    if (expired) hooks.onExpired?.({id, expireAt});
+    if (expired && expireAt.getTime() + graceMs <= Date.now()) {
+      pending.track(deleteEntry(db, ref, chunks));
+      return undefined;
+    }
+
+    const early =
+      !expired &&
+      !!expireAt &&
+      expiresEarly(expireAt, computeMs ?? 0, params.earlyExpirationBeta ?? 0);
+    // serve it only when someone refreshes it
+    if (early && !leases && !params.staleWhileRevalidate) return undefined;
+    const stale = expired || early;
+
+    if (await invalidatedAfterWrite(entry)) return undefined;
+
+    const payload = chunks
+      ? await trace('firestore.getAll', {count: chunks.count}, () =>
+          joinChunks(db, ref, chunks)
+        )
+      : entry.payload;
+    if (payload === undefined) return undefined; // incomplete chunks
+
+    const json = await decodePayload({payload, encoding});
+    if (!stale && !entry.entityIndexed) {
+      const {typenames, entityIds, tags, operationName, coordinates} = entry;
+      memory?.set(id, {
+        payload: json,
+        expireAt,
+        typenames,
+        entityIds,
+        tags,
+        operationName,
+        coordinates,
+        partition,
+      });
+    }
+    return {data: JSON.parse(json), stale, expireAt};
+  }
+
+  async function waitForFresh(
+    id: string,
+    location: Location,
+    waitMs: number,
+    intervalMs: number
+  ) {
+    const deadline = Date.now() + waitMs;
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+      const found = await read(id, location);
+      if (found && !found.stale) return found.data;
+    }
+    return undefined;
+  }
+
+  async function write(
+    id: string,
+    data: ExecutionResult,
+    entities: Iterable<CacheEntityRecord>,
+    ttl: number
+  ) {
+    const startedAt = computations.finish(id);
+    const location = locate(id);
+    const operation = operations.get(id);
+    operations.delete(id);
+    if (!location) return; // unknown collection
+
+    const {ref, partition} = location;
+    const lease = leases?.settle(ref);
+
+    const records = Array.from(entities);
+    const typenames = new Set<string>();
+    const entityIds = new Set<string>();
+    for (const {typename, id} of records) {
+      typenames.add(typename);
+      if (id) {
+        entityIds.add(buildEntityId(typename, id));
+      }
+    }
+    const tags = params.extractTags
+      ? Array.from(
+          new Set(
+            params.extractTags({
+              id,
+              data,
+              entities: records,
+              context: operation?.args.contextValue,
+            })
+          )
+        )
+      : undefined;
+    const metadata =
+      params.operationMetadata && operation
+        ? describeOperation(operation)
+        : undefined;
+
+    const json = JSON.stringify(data);
+    const now = Date.now();
+    const jittered = jitterTtl(ttl, params.ttlJitter ?? 0);
+    const expireAt = isFinite(jittered) ? new Date(now + jittered) : null;
+    memory?.set(id, {
+      payload: json,
+      expireAt,
+      typenames: Array.from(typenames),
+      entityIds: Array.from(entityIds),
+      tags,
+      operationName: metadata?.operationName,
+      coordinates: metadata?.coordinates,
+      partition,
+    });
+
+    // the lease holder writes
+    if (lease && !lease.writable) return;
+
+    const {payload, encoding} = await encodePayload(json, params.compression);
+    const split = splitPayload(payload, chunkSize);
+    const keys = versionKeys({
+      typenames,
+      entityIds,
+      tags,
+      operationNames: metadata?.operationName ? [metadata.operationName] : [],
+      coordinates: metadata?.coordinates,
+      partitions: partition !== undefined ? [partition] : [],
+    });
+    const generations =
+      versioned && versions
+        ? await trace('firestore.getAll', {count: keys.length}, () =>
+            versions.read(keys)
+          )
+        : undefined;
+
+    const entry: CacheEntry = {
+      payload: split ? '' : payload,
+      ...(encoding ? {encoding} : {}),
+      ...(split ? {chunks: split.info} : {}),
+      expireAt,
+      typenames: Array.from(typenames),
+      entityIds: entityIndex ? [] : Array.from(entityIds),
+      ...(entityIndex
+        ? {entityIndexed: true, entityCount: entityIds.size}
+        : {}),
+      bytes: Buffer.byteLength(payload),
+      ...(tags ? {tags} : {}),
+      ...(metadata ?? {}),
+      ...(partition !== undefined ? {partition} : {}),
+      ...(generations ? {generations} : {}),
+      startedAt,
+      computeMs: now - startedAt.getTime(),
+      ...(documentIdStrategy !== 'raw' ? {key: id} : {}),
+    };
+    const chunks = split
+      ? {refs: chunkRefs(ref, split.info), docs: chunkDocs(split, expireAt)}
+      : undefined;
+
+    // before the entry not to miss it on invalidation
+    if (entityIndex) {
+      await trace('firestore.commit', {count: entityIds.size}, () =>
+        entityIndex.write(ref, Array.from(entityIds), expireAt)
+      );
+    }
+
+    const written = await trace('firestore.set', {path: ref.path}, async () => {
+      if (versions && staleWriteProtection && keys.length > 0) {
+        // invalidate updates timestamps before deleting entries,
+        // so either this transaction sees them or the entry is deleted after this.
+        return db.runTransaction(async tx => {
+          const snapshots = await tx.getAll(...versions.refs(keys));
+          if (invalidatedSince(snapshots, startedAt)) return false;
+          const [previous] = chunks
+            ? await tx.getAll(ref, {fieldMask: ['chunks']})
+            : [];
+
+          tx.set(ref, entry);
+          chunks?.refs.forEach((chunkRef, i) =>
+            tx.set(chunkRef, chunks.docs[i])
+          );
+          staleChunkRefs(ref, previous?.get('chunks'), split?.info).forEach(
+            chunkRef => tx.delete(chunkRef)
+          );
+          return true;
+        });
+      } else if (chunks) {
+        // write the entry and its chunks atomically, deleting chunks beyond them
+        const previous = await trace('firestore.getAll', {count: 1}, () =>
+          storedChunks(db, ref)
+        );
+        const batch = db.batch();
+        batch.set(ref, entry);
+        chunks.refs.forEach((chunkRef, i) =>
+          batch.set(chunkRef, chunks.docs[i])
+        );
+        staleChunkRefs(ref, previous, split?.info).forEach(chunkRef =>
+          batch.delete(chunkRef)
+        );
+        await batch.commit();
+      } else if (writeBehind) {
+        await writeBehind.enqueue(ref, entry);
+      } else {
+        await ref.set(entry);
+      }
+      return true;
+    });
+    if (written) {
+      hooks.onSet?.({
+        id,
+        bytes: Buffer.byteLength(payload),
+        entities: records.length,
+        ttl,
+      });
+    } else {
+      memory?.delete(id);
+    }
+
+    await lease?.release();
+  }
+
+  function invalidate(entities: Iterable<CacheEntityRecord>) {
+    const typenames = new Set<string>();
+    const entityIds = new Set<string>();
+    for (const {typename, id} of entities) {
+      if (!id) {
         typenames.add(typename);
-        if (id) {
-          entityIds.add(buildEntityId(typename, id));
+      }
+      if (id && !typenames.has(typename)) {
+        entityIds.add(buildEntityId(typename, id));
+      }
+    }
+    return invalidateTargets({typenames, entityIds});
+  }
+
+  function invalidateTargets(
+    values: Partial<Record<keyof InvalidationTargets, Iterable<string>>>
+  ) {
+    return pending.track(
+      observe({operation: 'invalidate'}, () =>
+        trace('responseCache.invalidate', {}, () => dropTargets(values))
+      )
+    );
+  }
+
+  async function dropTargets(
+    values: Partial<Record<keyof InvalidationTargets, Iterable<string>>>
+  ): Promise<DeletionStats> {
+    const targets: InvalidationTargets = {
+      typenames: Array.from(new Set(values.typenames)),
+      entityIds: Array.from(new Set(values.entityIds)),
+      tags: Array.from(new Set(values.tags)),
+      operationNames: Array.from(new Set(values.operationNames)),
+      coordinates: Array.from(new Set(values.coordinates)),
+      partitions: Array.from(new Set(values.partitions)),
+    };
+    const stats = createDeletionStatsRecorder();
+
+    // before deletion for staleWriteProtection
+    if (versions) {
+      const keys = versionKeys(targets);
+      const batches = await trace(
+        'firestore.commit',
+        {count: keys.length},
+        () => versions.invalidate(keys, versioned)
+      );
+      stats.add(undefined, {deleted: 0, batches});
+    }
+
+    if (!versioned) {
+      stats.add(
+        'typename',
+        await deleteMatching(
+          'typenames',
+          'array-contains-any',
+          targets.typenames
+        )
+      );
+      if (entityIndex) {
+        stats.add('entity', await entityIndex.deleteEntries(targets.entityIds));
+      }
+      stats.add(
+        'entity',
+        await deleteMatching(
+          'entityIds',
+          'array-contains-any',
+          targets.entityIds
+        )
+      );
+      stats.add(
+        'tag',
+        await deleteMatching('tags', 'array-contains-any', targets.tags)
+      );
+      stats.add(
+        'operation',
+        await deleteMatching('operationName', 'in', targets.operationNames)
+      );
+      stats.add(
+        'coordinate',
+        await deleteMatching(
+          'coordinates',
+          'array-contains-any',
+          targets.coordinates
+        )
+      );
+      if (subcollections && !resolveCollectionPath) {
+        for (const partition of targets.partitions) {
+          const query = entries(collectionPath, partition).orderBy(
+            FieldPath.documentId()
+          );
+          stats.add('partition', await deleteAll(db, query, s => s.id, trace));
         }
       }
+      // entries stored outside of partition subcollections
+      stats.add(
+        'partition',
+        await deleteMatching('partition', 'in', targets.partitions)
+      );
+    }
+
+    // after deletion not to keep entries read during the deletion
+    evict(targets);
+    if (invalidationLog) {
+      await trace('firestore.add', {}, () => invalidationLog.append(targets));
+    }
+
+    const result = stats.result();
+    hooks.onInvalidate?.({
+      targets,
+      deleted: Object.values(result.deleted).reduce((a, b) => a + b, 0),
+      durationMs: result.elapsedMs,
+    });
+    return result;
+  }
+
+  // delete entries whose field matches any of the values
+  async function deleteMatching(
+    field: keyof CacheEntry,
+    op: 'array-contains-any' | 'in',
+    values: string[]
+  ): Promise<DeleteResult> {
+    const total = {deleted: 0, batches: 0};
+    for (const ids of chunk(values, 10)) {
+      const query = entryGroup
+        .where(field, op, ids)
+        .orderBy(FieldPath.documentId(), 'asc');
+      // collection group queries are ordered by paths
+      const afterFunc = (s: QueryDocumentSnapshot) =>
+        grouped ? s.ref.path : s.id;
+      const {deleted, batches} = await deleteAll(db, query, afterFunc, trace);
+      total.deleted += deleted;
+      total.batches += batches;
+    }
+    return total;
+  }
+
+  // evict in-memory entries matching any of the targets
+  function evict(targets: InvalidationTargets) {
+    memory?.invalidate(targets.typenames, targets.entityIds);
+
+    const tags = new Set(targets.tags);
+    const operationNames = new Set(targets.operationNames);
+    const coordinates = new Set(targets.coordinates);
+    const partitions = new Set(targets.partitions);
+    const size =
+      tags.size + operationNames.size + coordinates.size + partitions.size;
+    if (size === 0) return;
+
+    memory?.invalidateWhere(
+      meta =>
+        !!meta.tags?.some(tag => tags.has(tag)) ||
+        (!!meta.operationName && operationNames.has(meta.operationName)) ||
+        !!meta.coordinates?.some(coordinate => coordinates.has(coordinate)) ||
+        (meta.partition !== undefined && partitions.has(meta.partition))
+    );
+  }
+
+  async function purgeCollection(path: string) {
+    const query = entries(path, undefined).orderBy(FieldPath.documentId());
+    await deleteAll(db, query, s => s.id);
+
+    if (subcollections) {
+      // partition documents are not created, only their subcollections
+      const base = params.partition?.collectionPath ?? `${path}Partitions`;
+      const refs = await db.collection(base).listDocuments();
+      for (const ref of refs) {
+        const query = ref
+          .collection(collectionId)
+          .orderBy(FieldPath.documentId());
+        await deleteAll(db, query, s => s.id);
+      }
+    }
+
+    // keys of in-memory entries are not tied to collections
+    memory?.clear();
+  }
+
+  async function lookup(id: string) {
+    const location = locate(id);
+    if (!location) {
+      operations.delete(id);
+      hooks.onMiss?.({id});
+      return undefined; // not cached in unknown collections
+    }
+
+    const cached = memory?.get(id);
+    if (cached !== undefined) {
+      operations.delete(id);
+      hooks.onHit?.({id, source: 'memory', stale: false});
+      return JSON.parse(cached);
+    }
+
+    const found = await read(id, location);
+    if (found && !found.stale) {
+      operations.delete(id);
+      hooks.onHit?.({id, source: 'firestore', stale: false});
+      return found.data;
+    }
+
+    if (leases && (await leases.acquire(location.ref))) {
+      computations.start(id);
+      hooks.onMiss?.({id});
+      return undefined; // recompute by this instance
+    }
+
+    if (found) {
+      // another lease holder is recomputing, or leave it to onStale
+      if (!leases && found.expireAt) {
+        params.staleWhileRevalidate?.onStale?.({
+          id,
+          expireAt: found.expireAt,
+        });
+      }
+      hooks.onHit?.({id, source: 'firestore', stale: true});
+      return found.data;
+    }
+
+    if (leases) {
+      const data = await waitForFresh(
+        id,
+        location,
+        params.lease?.waitMs ?? 1000,
+        params.lease?.pollIntervalMs ?? 100
+      );
+      if (data) {
+        hooks.onHit?.({id, source: 'firestore', stale: false});
+        return data;
+      }
+    }
+
+    computations.start(id);
+    hooks.onMiss?.({id});
+    return undefined;
+  }
+
+  async function deleteExpired(
+    options: CleanupOptions = {}
+  ): Promise<CleanupResult> {
+    const stats = createDeletionStatsRecorder();
+    const budget = {
+      deadline: Date.now() + (options.timeBudgetMs ?? Infinity),
+      documents: options.maxDocuments ?? Infinity,
+    };
+    const phases: [CleanupPhase, Query | undefined][] = [
+      [
+        'entries',
+        entryGroup
+          .where('expireAt', '<', new Date(Date.now() - graceMs))
+          .orderBy('expireAt', 'asc'),
+      ],
+      ['invalidationLog', invalidationLog?.expiredQuery()],
+      ['entityIndex', entityIndex?.expiredQuery()],
+      ['leases', leases?.expiredQuery()],
+      ['versions', versions?.expiredQuery()],
+    ];
+
+    const {cursor} = options;
+    const start = cursor
+      ? Math.max(
+          phases.findIndex(([phase]) => phase === cursor.phase),
+          0
+        )
+      : 0;
+    for (let i = start; i < phases.length; i++) {
+      const [phase, query] = phases[i];
+      if (!query) continue;
+
+      const after = i === start ? cursor?.after : undefined;
+      const result = await sweep(db, query, options, budget, trace, after);
+      stats.add(phase === 'entries' ? 'expired' : undefined, result);
+      if (!result.done) {
+        return {
+          ...stats.result(),
+          completed: false,
+          cursor: {phase, after: result.after},
+        };
+      }
+    }
+    return {...stats.result(), completed: true};
+  }
+
+  function toMetadata(snapshot: DocumentSnapshot): EntryMetadata {
+    const get = <T>(field: string): T | undefined => snapshot.get(field);
+    const expireAt = get<Timestamp | null>('expireAt')?.toDate() ?? null;
+    const startedAt = get<Timestamp>('startedAt');
+    const computeMs = get<number>('computeMs');
+    const bytes = get<number>('bytes');
+    const tags = get<string[]>('tags');
+    const operationName = get<string>('operationName');
+    const partition = get<string>('partition');
+    return {
+      key: keyOf(snapshot),
+      path: snapshot.ref.path,
+      expireAt,
+      ttlMs: expireAt ? Math.max(expireAt.getTime() - Date.now(), 0) : null,
+      ...(bytes !== undefined ? {bytes} : {}),
+      typenames: get<string[]>('typenames') ?? [],
+      entityCount:
+        get<number>('entityCount') ?? get<string[]>('entityIds')?.length ?? 0,
+      ...(startedAt && computeMs !== undefined
+        ? {createdAt: new Date(startedAt.toMillis() + computeMs)}
+        : {}),
+      ...(tags ? {tags} : {}),
+      ...(operationName ? {operationName} : {}),
+      ...(partition !== undefined ? {partition} : {}),
+    };
+  }
+
+  function filtered(filter: EntryFilter): Query<CacheEntry> {
+    if (filter.typename !== undefined && filter.entity) {
+      throw new Error('filter entries by either typename or entity');
+    }
+    if (filter.entity) {
+      if (entityIndex) {
+        throw new Error('entity filter is not available with entityIndex');
+      }
+      const {typename, id} = filter.entity;
+      return entryGroup.where(
+        'entityIds',
+        'array-contains',
+        buildEntityId(typename, id)
+      );
+    }
+    if (filter.typename !== undefined) {
+      return entryGroup.where('typenames', 'array-contains', filter.typename);
+    }
+    return entryGroup;
+  }
+
+  async function getEntryMetadata(id: string, partition?: string) {
+    const ref = refOf(id, partition);
+    if (!ref) return undefined;
+    const [snapshot] = await db.getAll(ref, {fieldMask: metadataFields});
+    if (!snapshot.exists) return undefined;
+
+    const key: string | undefined = snapshot.get('key');
+    if (key !== undefined && key !== id) return undefined; // collision
+    return toMetadata(snapshot);
+  }
+
+  async function peekEntry(id: string, partition?: string) {
+    const ref = refOf(id, partition);
+    if (!ref) return undefined;
+    const snapshot = await ref.get();
+    const entry = snapshot.data();
+    if (!entry) return undefined;
+    if (entry.key !== undefined && entry.key !== id) return undefined; // collision
+
+    const json = await readPayload(ref, entry);
+    if (json === undefined) return undefined;
+    return {
+      data: JSON.parse(json) as ExecutionResult,
+      metadata: toMetadata(snapshot),
+    };
+  }
+
+  // undefined when the chunks are missing
+  async function readPayload(
+    ref: DocumentReference,
+    {payload, encoding, chunks}: CacheEntry
+  ): Promise<string | undefined> {
+    const joined = chunks ? await joinChunks(db, ref, chunks) : payload;
+    if (joined === undefined) return undefined;
+    return decodePayload({payload: joined, encoding});
+  }
+
+  async function listEntries(
+    options: ListEntriesOptions
+  ): Promise<ListEntriesResult> {
+    const limit = options.limit ?? 100;
+    const query = filtered(options)
+      .select(...metadataFields)
+      .orderBy(FieldPath.documentId())
+      .limit(limit);
+    const snapshot = await (options.cursor
+      ? query.startAfter(db.doc(options.cursor))
+      : query
+    ).get();
+
+    const entries = snapshot.docs.map(toMetadata);
+    return snapshot.size < limit
+      ? {entries}
+      : {entries, cursor: snapshot.docs[snapshot.size - 1].ref.path};
+  }
+
+  async function toRecord(
+    snapshot: QueryDocumentSnapshot<CacheEntry>
+  ): Promise<SnapshotRecord | undefined> {
+    const entry = snapshot.data();
+    // import stamps current generations, which would revive invalidated entries
+    if (await invalidatedAfterWrite(entry)) return undefined;
+    const json = await readPayload(snapshot.ref, entry);
+    if (json === undefined) return undefined;
+
+    const entityIds =
+      entry.entityIndexed && entityIndex
+        ? await entityIndex.entityIds(snapshot.ref)
+        : entry.entityIds;
+    const {expireAt, tags, operationName, documentHash, coordinates} = entry;
+    return {
+      key: keyOf(snapshot),
+      data: JSON.parse(json),
+      expireAt: expireAt ? expireAt.toISOString() : null,
+      ttlMs: expireAt ? Math.max(expireAt.getTime() - Date.now(), 0) : null,
+      typenames: entry.typenames,
+      entityIds,
+      ...(tags ? {tags} : {}),
+      ...(operationName ? {operationName} : {}),
+      ...(documentHash ? {documentHash} : {}),
+      ...(coordinates ? {coordinates} : {}),
+      ...(entry.partition !== undefined ? {partition: entry.partition} : {}),
+    };
+  }
+
+  async function exportEntries(
+    stream: Writable,
+    filter: EntryFilter
+  ): Promise<ExportResult> {
+    const result = {exported: 0, skipped: 0};
+    const query = filtered(filter)
+      .orderBy(FieldPath.documentId())
+      .limit(exportPageSize);
+    let after: string | undefined;
+    for (;;) {
+      const snapshot = await trace('firestore.query', {}, () =>
+        (after ? query.startAfter(db.doc(after)) : query).get()
+      );
+      for (const doc of snapshot.docs) {
+        const record = await toRecord(doc);
+        if (!record) {
+          result.skipped++;
+          continue;
+        }
+        await writeLine(stream, record);
+        result.exported++;
+      }
+      if (snapshot.size < exportPageSize) return result;
+      after = snapshot.docs[snapshot.size - 1].ref.path;
+    }
+  }
+
+  async function importEntries(
+    stream: Readable,
+    options: ImportOptions
+  ): Promise<ImportResult> {
+    const preserveTtl = options.preserveTtl ?? true;
+    const result = {imported: 0, skipped: 0, batches: 0};
+
+    let batch = db.batch();
+    let writes = 0;
+    let bytes = 0;
+    const commit = async () => {
+      if (writes === 0) return;
+      const committing = batch;
+      await trace('firestore.commit', {count: writes}, () =>
+        committing.commit()
+      );
+      result.batches++;
+      batch = db.batch();
+      writes = 0;
+      bytes = 0;
+    };
+
+    for await (const record of readRecords(stream)) {
+      const now = Date.now();
+      const expireAt = importedExpireAt(record, preserveTtl, now);
+      const ref = refOf(record.key, record.partition);
+      if (!ref || (expireAt && expireAt.getTime() <= now)) {
+        result.skipped++;
+        continue;
+      }
+
+      const {payload, encoding} = await encodePayload(
+        JSON.stringify(record.data),
+        params.compression
+      );
+      const split = splitPayload(payload, chunkSize);
+      const keys = versionKeys({
+        typenames: record.typenames,
+        entityIds: record.entityIds,
+        tags: record.tags,
+        operationNames: record.operationName ? [record.operationName] : [],
+        coordinates: record.coordinates,
+        partitions: record.partition !== undefined ? [record.partition] : [],
+      });
+      const generations =
+        versioned && versions
+          ? await trace('firestore.getAll', {count: keys.length}, () =>
+              versions.read(keys)
+            )
+          : undefined;
 
       const entry: CacheEntry = {
-        payload: JSON.stringify(data),
-        expireAt: isFinite(ttl) ? new Date(Date.now() + ttl) : null,
-        typenames: Array.from(typenames),
-        entityIds: Array.from(entityIds),
+        payload: split ? '' : payload,
+        ...(encoding ? {encoding} : {}),
+        ...(split ? {chunks: split.info} : {}),
+        expireAt,
+        typenames: record.typenames,
+        entityIds: entityIndex ? [] : record.entityIds,
+        ...(entityIndex
+          ? {entityIndexed: true, entityCount: record.entityIds.length}
+          : {}),
+        bytes: Buffer.byteLength(payload),
+        ...(record.tags ? {tags: record.tags} : {}),
+        ...(record.operationName ? {operationName: record.operationName} : {}),
+        ...(record.documentHash ? {documentHash: record.documentHash} : {}),
+        ...(record.coordinates ? {coordinates: record.coordinates} : {}),
+        ...(record.partition !== undefined
+          ? {partition: record.partition}
+          : {}),
+        ...(generations ? {generations} : {}),
+        startedAt: new Date(now),
+        computeMs: 0,
+        ...(documentIdStrategy !== 'raw' ? {key: record.key} : {}),
       };
+      const chunkWrites = split
+        ? {refs: chunkRefs(ref, split.info), docs: chunkDocs(split, expireAt)}
+        : {refs: [], docs: []};
 
-      await ref.set(entry);
-    },
+      // before the entry not to miss it on invalidation
+      if (entityIndex) {
+        await trace('firestore.commit', {count: record.entityIds.length}, () =>
+          entityIndex.write(ref, record.entityIds, expireAt)
+        );
+      }
+
+      const stale = split
+        ? staleChunkRefs(ref, await storedChunks(db, ref), split.info)
+        : [];
+      const size = Buffer.byteLength(payload);
+      const count = 1 + chunkWrites.refs.length + stale.length;
+      if (writes + count > maxBatchWrites || bytes + size > maxBatchBytes) {
+        await commit();
+      }
+      batch.set(ref, entry);
+      chunkWrites.refs.forEach((chunkRef, i) =>
+        batch.set(chunkRef, chunkWrites.docs[i])
+      );
+      stale.forEach(chunkRef => batch.delete(chunkRef));
+      writes += count;
+      bytes += size;
+      memory?.delete(record.key);
+      result.imported++;
+    }
+    await commit();
+    return result;
+  }
 
-    async get(id) {
-      const ref = collection.doc(id);
-      const snapshot = await ref.get();
-      if (!snapshot.exists) return undefined;
+  // report errors to the hook before throwing them
+  async function observe<T>(event: ErrorEvent, fn: () => Promise<T>) {
+    try {
+      return await fn();
+    } catch (e) {
+      hooks.onError?.(e, event);
+      throw e;
+    }
+  }
 
-      const entry = snapshot.data();
-      if (!entry) return undefined;
+  // with failOpen, errors are reported to the hook and resolve undefined
+  async function guard<T>(
+    event: ErrorEvent,
+    fn: () => Promise<T>,
+    timeoutMs = Infinity
+  ): Promise<T | undefined> {
+    if (!params.failOpen) return observe(event, fn);
+    if (breaker && !breaker.allow()) return undefined; // bypass Firestore
 
-      const {payload, expireAt} = entry;
-      if (expireAt && expireAt.getTime() <= Date.now()) {
-        ref.delete();
-        return undefined;
+    try {
+      let result: T | undefined;
+      const settled = await withTimeout(
+        fn().then(r => {
+          result = r;
+        }),
+        timeoutMs
+      );
+      if (!settled) {
+        throw new Error(`${event.operation} timed out in ${timeoutMs} ms`);
       }
-      return JSON.parse(payload);
+      breaker?.success();
+      return result;
+    } catch (e) {
+      breaker?.failure();
+      hooks.onError?.(e, event);
+      return undefined;
+    }
+  }
+
+  function flush(timeoutMs = Infinity): Promise<boolean> {
+    const drain = async () => {
+      // writes may be issued while waiting
+      while (pending.size() > 0) {
+        await writeBehind?.flush();
+        await pending.settled();
+      }
+    };
+    return withTimeout(drain(), timeoutMs);
+  }
+
+  return {
+    set(id, data, entities, ttl) {
+      return pending.track(
+        guard({operation: 'set', id}, () =>
+          trace('responseCache.set', {}, () => write(id, data, entities, ttl))
+        )
+      );
     },
 
-    async invalidate(entities) {
-      const typenames = new Set<string>();
-      const entityIds = new Set<string>();
-      for (const {typename, id} of entities) {
-        if (!id) {
-          typenames.add(typename);
-        }
-        if (id && !typenames.has(typename)) {
-          entityIds.add(buildEntityId(typename, id));
-        }
+    get(id) {
+      return guard(
+        {operation: 'get', id},
+        () => trace('responseCache.get', {}, () => lookup(id)),
+        params.failOpen?.readTimeoutMs
+      );
+    },
+
+    // satisfies the overload of Cache resolving void as well
+    invalidate: invalidate as CacheFirestore['invalidate'],
+
+    deleteExpiredCacheEntry(options) {
+      return observe({operation: 'deleteExpiredCacheEntry'}, () =>
+        trace('responseCache.deleteExpiredCacheEntry', {}, () =>
+          deleteExpired(options)
+        )
+      );
+    },
+
+    listenInvalidationLog() {
+      if (!invalidationLog) {
+        throw new Error('invalidationLog option is not configured');
       }
+      const unlisten = invalidationLog.listen(
+        evict,
+        // events may have been missed while disconnected
+        () => memory?.clear()
+      );
+      listeners.add(unlisten);
+      return () => {
+        listeners.delete(unlisten);
+        unlisten();
+      };
+    },
 
-      // delete by typename
-      await chunk(Array.from(typenames), 10).reduce((prev, chunk) => {
-        return prev.then(async () => {
-          const query = collection
-            .where('typenames', 'array-contains-any', chunk)
-            .orderBy(FieldPath.documentId(), 'asc');
-          return deleteAll(db, query, s => s.id);
-        });
-      }, Promise.resolve());
-
-      // delete by entity
-      await chunk(Array.from(entityIds), 10).reduce((prev, chunk) => {
-        return prev.then(async () => {
-          const query = collection
-            .where('entityIds', 'array-contains-any', chunk)
-            .orderBy(FieldPath.documentId(), 'asc');
-          return deleteAll(db, query, s => s.id);
-        });
-      }, Promise.resolve());
+    pendingWrites() {
+      return pending.size();
+    },
+
+    circuitState() {
+      return breaker?.state();
+    },
+
+    flush,
+
+    close(timeoutMs = Infinity) {
+      listeners.forEach(unlisten => unlisten());
+      listeners.clear();
+      return flush(timeoutMs);
+    },
+
+    invalidateTags(tags) {
+      return invalidateTargets({tags});
+    },
+
+    invalidateOperations(operationNames) {
+      return invalidateTargets({operationNames});
+    },
+
+    invalidateCoordinates(coordinates) {
+      return invalidateTargets({coordinates});
+    },
+
+    invalidateSession(sessionId) {
+      return invalidateTargets({partitions: [sessionId]});
+    },
+
+    purgeCollection(context) {
+      return pending.track(
+        (async () =>
+          purgeCollection(
+            resolveCollectionPath ? resolvePath(context) : collectionPath
+          ))()
+      );
+    },
+
+    responseCacheParameters(params) {
+      return operations.responseCacheParameters(params);
+    },
+
+    getEntryMetadata,
+
+    peekEntry,
+
+    listEntries(options = {}) {
+      return listEntries(options);
     },
 
-    async deleteExpiredCacheEntry() {
-      const query = collection
-        .where('expireAt', '<', new Date())
-        .orderBy('expireAt', 'asc');
-      return deleteAll(db, query, s => s.data()?.expireAt);
+    async countEntries(options = {}) {
+      const query = filtered(options);
+      return countQuery(
+        options.expired ? query.where('expireAt', '<', new Date()) : query
+      );
+    },
+
+    exportEntries(stream, filter = {}) {
+      return exportEntries(stream, filter);
+    },
+
+    importEntries(stream, options = {}) {
+      return pending.track(importEntries(stream, options));
     },
   };
 }
 
+// deleted is the number of documents matched to the query
 async function deleteAll(
   db: Firestore,
   query: Query,
-  afterFunc: (snapshot: QueryDocumentSnapshot) => DocumentData[string]
+  afterFunc: (snapshot: QueryDocumentSnapshot) => DocumentData[string],
+  trace: Trace = untraced
 ) {
-  return new Promise<void>((resolve, reject) =>
-    deleteQueryBatch(db, query, afterFunc, resolve).catch(reject)
+  return new Promise<DeleteResult>((resolve, reject) =>
+    deleteQueryBatch(db, query, afterFunc, trace, resolve, reject, {
+      deleted: 0,
+      batches: 0,
+    }).catch(reject)
   );
 }
 
@@ -166,26 +1611,67 @@ async function deleteQueryBatch(
   db: Firestore,
   query: Query,
   afterFunc: (snapshot: QueryDocumentSnapshot) => DocumentData[string],
-  resolve: () => void,
+  trace: Trace,
+  resolve: (result: DeleteResult) => void,
+  reject: (error: unknown) => void,
+  result: DeleteResult,
   after?: DocumentData[string]
 ) {
   const q = query.limit(500);
-  const snapshot = await (after ? q.startAfter(after) : q).get();
+  const snapshot = await trace('firestore.query', {}, () =>
+    (after ? q.startAfter(after) : q).get()
+  );
   const batchSize = snapshot.size;
   if (batchSize === 0) {
-    resolve();
+    resolve(result);
     return;
   }
 
-  const batch = db.batch();
-  snapshot.docs.forEach(doc => batch.delete(doc.ref));
-  await batch.commit();
+  const refs: DocumentReference[] = [];
+  for (const doc of snapshot.docs) {
+    const chunks: ChunkInfo | undefined = doc.get('chunks');
+    refs.push(doc.ref, ...(chunks ? chunkRefs(doc.ref, chunks) : []));
+  }
+  const batches = chunk(refs, 500);
+  await trace('firestore.commit', {count: refs.length}, () =>
+    Promise.all(
+      batches.map(refs => {
+        const batch = db.batch();
+        refs.forEach(ref => batch.delete(ref));
+        return batch.commit();
+      })
+    )
+  );
 
   const last = snapshot.docs[snapshot.docs.length - 1];
   process.nextTick(() => {
-    deleteQueryBatch(db, query, afterFunc, resolve, afterFunc(last));
+    deleteQueryBatch(
+      db,
+      query,
+      afterFunc,
+      trace,
+      resolve,
+      reject,
+      {
+        deleted: result.deleted + batchSize,
+        batches: result.batches + batches.length,
+      },
+      afterFunc(last)
+    ).catch(reject);
   });
 }
 
+async function deleteEntry(
+  db: Firestore,
+  ref: DocumentReference,
+  chunks?: ChunkInfo
+) {
+  if (!chunks) return ref.delete();
+
+  const batch = db.batch();
+  [ref, ...chunkRefs(ref, chunks)].forEach(ref => batch.delete(ref));
+  return batch.commit();
+}
+
 export const defaultBuildEntityId: BuildEntityId = (typename, id) =>
   `${typename}#${id}`;
@@ -0,0 +1,110 @@
+import {randomUUID} from 'crypto';
+import type {
+  DocumentReference,
+  DocumentSnapshot,
+  Firestore,
+} from '@google-cloud/firestore';
+
+// Firestore document size limit is 1 MiB including field names and other fields
+export const defaultChunkSize = 900 * 1024;
+
+// Firestore limits a commit to 10 MiB and 500 writes, which write an entry and all of its chunks
+export const maxChunkedBytes = 9 * 1024 * 1024;
+export const maxChunks = 499;
+
+export const chunkCollectionId = 'chunks';
+
+export type ChunkInfo = {
+  count: number;
+  version: string; // identifies the set of chunks written together
+};
+
+type ChunkDoc = {
+  data: Buffer;
+  version: string;
+  expireAt: Date | null;
+};
+
+export type SplitPayload = {
+  info: ChunkInfo;
+  chunks: Buffer[];
+};
+
+export function splitPayload(
+  payload: string | Buffer,
+  chunkSize: number
+): SplitPayload | undefined {
+  const buf = typeof payload === 'string' ? Buffer.from(payload) : payload;
+  if (buf.byteLength <= chunkSize) return undefined;
+  if (buf.byteLength > maxChunkedBytes) {
+    throw new Error(
+      `payload of ${buf.byteLength} bytes exceeds ${maxChunkedBytes} bytes written in a commit`
+    );
+  }
+
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < buf.byteLength; offset += chunkSize) {
+    chunks.push(buf.slice(offset, offset + chunkSize));
+  }
+  if (chunks.length > maxChunks) {
+    throw new Error(
+      `payload of ${chunks.length} chunks exceeds ${maxChunks} chunks written in a commit`
+    );
+  }
+  return {info: {count: chunks.length, version: randomUUID()}, chunks};
+}
+
+export function chunkRefs(
+  ref: DocumentReference,
+  info: ChunkInfo
+): DocumentReference[] {
+  const col = ref.collection(chunkCollectionId);
+  return [...Array(info.count).keys()].map(i => col.doc(i.toString()));
+}
+
+/** Chunks of the previous entry beyond the chunks of the next one */
+export function staleChunkRefs(
+  ref: DocumentReference,
+  previous: ChunkInfo | undefined,
+  next: ChunkInfo | undefined
+): DocumentReference[] {
+  return previous ? chunkRefs(ref, previous).slice(next?.count ?? 0) : [];
+}
+
+/** Read chunk info of the stored entry, without its payload */
+export async function storedChunks(
+  db: Firestore,
+  ref: DocumentReference
+): Promise<ChunkInfo | undefined> {
+  const [snapshot] = await db.getAll(ref, {fieldMask: ['chunks']});
+  return snapshot.get('chunks');
+}
+
+export function chunkDocs(
+  {info, chunks}: SplitPayload,
+  expireAt: Date | null
+): ChunkDoc[] {
+  return chunks.map(data => ({data, version: info.version, expireAt}));
+}
+
+/**
+ * Reads and concatenates chunks of the entry.
+ * Returns undefined if some chunks are missing or written by another `set`.
+ */
+export async function joinChunks(
+  db: Firestore,
+  ref: DocumentReference,
+  info: ChunkInfo
+): Promise<Buffer | undefined> {
+  const snapshots: DocumentSnapshot[] = await db.getAll(
+    ...chunkRefs(ref, info)
+  );
+  const buffers: Buffer[] = [];
+  for (const snapshot of snapshots) {
+    if (!snapshot.exists || snapshot.get('version') !== info.version) {
+      return undefined;
+    }
+    buffers.push(snapshot.get('data'));
+  }
+  return Buffer.concat(buffers);
+}
@@ -0,0 +1,86 @@
+export type CircuitBreakerOptions = {
+  /**
+   * Number of consecutive failures to open the circuit
+   * @defaultValue 5
+   */
+  failureThreshold?: number;
+
+  /**
+   * Time in ms to bypass Firestore after the circuit opened
+   * A trial request is sent after this, which closes the circuit on success.
+   * @defaultValue 30000
+   */
+  cooldownMs?: number;
+};
+
+export type FailOpenOptions = {
+  /**
+   * Time in ms to wait for `get` before treating it as a miss
+   * @defaultValue Infinity
+   */
+  readTimeoutMs?: number;
+
+  /**
+   * Bypass Firestore in `get` and `set` after consecutive failures (disabled by default)
+   * @defaultValue undefined
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+};
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type CircuitBreaker = {
+  /** Whether to send a request, false while open or another trial is in flight */
+  allow(): boolean;
+  success(): void;
+  failure(): void;
+  state(): CircuitState;
+};
+
+export function createCircuitBreaker(
+  options: CircuitBreakerOptions
+): CircuitBreaker {
+  const failureThreshold = options.failureThreshold ?? 5;
+  const cooldownMs = options.cooldownMs ?? 30 * 1000;
+
+  let failures = 0;
+  let openedAt: number | undefined;
+  let trial = false;
+
+  function state(): CircuitState {
+    if (openedAt === undefined) return 'closed';
+    return Date.now() < openedAt + cooldownMs ? 'open' : 'half-open';
+  }
+
+  return {
+    allow() {
+      switch (state()) {
+        case 'closed':
+          return true;
+        case 'open':
+          return false;
+        case 'half-open':
+          // one trial at a time
+          if (trial) return false;
+          trial = true;
+          return true;
+      }
+    },
+
+    success() {
+      failures = 0;
+      openedAt = undefined;
+      trial = false;
+    },
+
+    failure() {
+      failures++;
+      if (trial || failures >= failureThreshold) {
+        openedAt = Date.now();
+      }
+      trial = false;
+    },
+
+    state,
+  };
+}
@@ -0,0 +1,140 @@
+import {FieldPath, Timestamp} from '@google-cloud/firestore';
+import type {
+  DocumentReference,
+  Firestore,
+  Query,
+} from '@google-cloud/firestore';
+import chunk from 'lodash.chunk';
+import {ChunkInfo, chunkRefs} from './chunking';
+import type {DeleteResult, DeletionStats} from './stats';
+import type {Trace} from './tracing';
+
+/** Collections swept by deleteExpiredCacheEntry in this order */
+export type CleanupPhase =
+  | 'entries'
+  | 'invalidationLog'
+  | 'entityIndex'
+  | 'leases'
+  | 'versions';
+
+/** Position to resume cleanup from, JSON serializable */
+export type CleanupCursor = {
+  phase: CleanupPhase;
+  after?: {expireAt: number; path: string}; // the last document swept
+};
+
+export type CleanupOptions = {
+  /**
+   * Time in ms to stop sweeping, checked between batches
+   * @defaultValue Infinity
+   */
+  timeBudgetMs?: number;
+
+  /**
+   * Maximum number of documents to sweep
+   * @defaultValue Infinity
+   */
+  maxDocuments?: number;
+
+  /**
+   * Number of documents deleted in a batch, up to 500 including chunk documents
+   * @defaultValue 500
+   */
+  batchSize?: number;
+
+  /**
+   * Number of batches committed concurrently
+   * @defaultValue 1
+   */
+  concurrency?: number;
+
+  /**
+   * Count documents to delete without deleting them
+   * @defaultValue false
+   */
+  dryRun?: boolean;
+
+  /**
+   * Resume from the cursor returned by the previous cleanup
+   * @defaultValue undefined
+   */
+  cursor?: CleanupCursor;
+};
+
+export type CleanupResult = DeletionStats & {
+  completed: boolean;
+  cursor?: CleanupCursor; // present unless completed
+};
+
+export type SweepResult = DeleteResult & {
+  done: boolean;
+  after?: CleanupCursor['after'];
+};
+
+export type SweepBudget = {
+  deadline: number;
+  documents: number; // decreased by swept documents
+};
+
+const maxBatchSize = 500;
+
+/**
+ * Delete documents matched to the query ordered by expireAt, within the budget.
+ */
+export async function sweep(
+  db: Firestore,
+  query: Query,
+  options: CleanupOptions,
+  budget: SweepBudget,
+  trace: Trace,
+  after?: CleanupCursor['after']
+): Promise<SweepResult> {
+  const batchSize = Math.min(options.batchSize ?? maxBatchSize, maxBatchSize);
+  const concurrency = options.concurrency ?? 1;
+  const result = {deleted: 0, batches: 0};
+
+  const ordered = query.orderBy(FieldPath.documentId(), 'asc');
+  for (;;) {
+    if (Date.now() >= budget.deadline || budget.documents <= 0) {
+      return {...result, done: false, after};
+    }
+
+    const limit = Math.min(batchSize * concurrency, budget.documents);
+    const q = ordered.limit(limit);
+    const snapshot = await trace('firestore.query', {}, () =>
+      (after
+        ? q.startAfter(Timestamp.fromMillis(after.expireAt), db.doc(after.path))
+        : q
+      ).get()
+    );
+    if (snapshot.empty) return {...result, done: true};
+
+    if (!options.dryRun) {
+      const refs: DocumentReference[] = [];
+      for (const doc of snapshot.docs) {
+        const chunks: ChunkInfo | undefined = doc.get('chunks');
+        refs.push(doc.ref, ...(chunks ? chunkRefs(doc.ref, chunks) : []));
+      }
+      const batches = chunk(refs, batchSize);
+      for (const group of chunk(batches, concurrency)) {
+        await trace('firestore.commit', {count: group.length}, () =>
+          Promise.all(
+            group.map(refs => {
+              const batch = db.batch();
+              refs.forEach(ref => batch.delete(ref));
+              return batch.commit();
+            })
+          )
+        );
+      }
+      result.batches += batches.length;
+    }
+    result.deleted += snapshot.size;
+    budget.documents -= snapshot.size;
+
+    const last = snapshot.docs[snapshot.docs.length - 1];
+    const expireAt: Timestamp = last.get('expireAt');
+    after = {expireAt: expireAt.toMillis(), path: last.ref.path};
+    if (snapshot.size < limit) return {...result, done: true};
+  }
+}
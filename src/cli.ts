@@ -0,0 +1,280 @@
+#!/usr/bin/env node
+import {createInterface} from 'readline';
+import {Firestore} from '@google-cloud/firestore';
+import {
+  CacheFirestore,
+  createFirestoreCache,
+  defaultCollectionPath,
+} from './cache';
+import type {CleanupOptions} from './cleanup';
+import type {DocumentIdStrategy} from './document-id';
+import {DeletionStats, sumDeletionStats} from './stats';
+
+const usage = `Usage: envelop-response-cache-firestore <command> [options]
+
+Commands:
+  invalidate --typename <name> [--id <id>] [--tag <tag>]
+                            invalidate entries, --typename and --tag are repeatable
+  purge-expired [--time-budget-ms <ms>] [--max-documents <n>] [--batch-size <n>]
+                [--concurrency <n>] [--dry-run] [--cursor <json>]
+                            delete expired entries
+  stats [--typename <name>]  count entries and expired ones not deleted yet
+  list [--typename <name>] [--limit <n>] [--cursor <path>]
+                            list metadata of entries, pass the printed cursor for the next page
+  get <key> [--partition <partition>]
+                            print the cached response and metadata of the key, without deleting expired ones
+  flush-all [--yes]         delete all entries after confirmation
+
+Options:
+  --project <id>            Google Cloud project id
+  --collection <path>       collection path of entries (default: "${defaultCollectionPath}")
+  --document-id-strategy <raw|sha256>
+                            documentIdStrategy of the cache (default: "raw")
+  --emulator-host <host>    connect to the Firestore emulator like "localhost:8080"
+                            FIRESTORE_EMULATOR_HOST is used as well
+`;
+
+const booleanFlags = new Set(['dry-run', 'yes', 'help']);
+
+export type ParsedArgs = {
+  command?: string;
+  positionals: string[];
+  flags: Record<string, string[]>;
+};
+
+export type ConnectOptions = {
+  projectId?: string;
+  collectionPath: string;
+  documentIdStrategy: DocumentIdStrategy;
+  emulatorHost?: string;
+};
+
+export type Connection = {
+  firestore: Firestore;
+  cache: CacheFirestore;
+  collectionPath: string;
+};
+
+export type CliIO = {
+  stdout(text: string): void;
+  stderr(text: string): void;
+  /** Ask the question and resolve the answer, undefined if not interactive */
+  prompt(question: string): Promise<string | undefined>;
+  connect(options: ConnectOptions): Connection;
+};
+
+class UsageError extends Error {}
+
+/**
+ * Parse `--name value`, `--name=value` and positional arguments.
+ * Flags may be repeated.
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string[]> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const eq = arg.indexOf('=');
+    const name = eq < 0 ? arg.slice(2) : arg.slice(2, eq);
+    let value: string;
+    if (eq >= 0) {
+      value = arg.slice(eq + 1);
+    } else if (booleanFlags.has(name)) {
+      value = 'true';
+    } else if (i + 1 < argv.length) {
+      value = argv[++i];
+    } else {
+      throw new UsageError(`--${name} requires a value`);
+    }
+    (flags[name] = flags[name] ?? []).push(value);
+  }
+  const [command, ...rest] = positionals;
+  return {command, positionals: rest, flags};
+}
+
+function last(args: ParsedArgs, name: string): string | undefined {
+  const values = args.flags[name];
+  return values?.[values.length - 1];
+}
+
+function number(args: ParsedArgs, name: string): number | undefined {
+  const value = last(args, name);
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!(n > 0)) throw new UsageError(`--${name} must be a positive number`);
+  return n;
+}
+
+function connectOptions(args: ParsedArgs): ConnectOptions {
+  const strategy = last(args, 'document-id-strategy') ?? 'raw';
+  if (strategy !== 'raw' && strategy !== 'sha256') {
+    throw new UsageError('--document-id-strategy must be raw or sha256');
+  }
+  return {
+    projectId: last(args, 'project'),
+    collectionPath: last(args, 'collection') ?? defaultCollectionPath,
+    documentIdStrategy: strategy,
+    emulatorHost: last(args, 'emulator-host'),
+  };
+}
+
+function parseCursor(text: string): CleanupOptions['cursor'] {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new UsageError('--cursor must be the JSON printed by purge-expired');
+  }
+}
+
+const commands: Record<
+  string,
+  (args: ParsedArgs, conn: Connection, io: CliIO) => Promise<unknown>
+> = {
+  async invalidate(args, {cache}) {
+    const typenames = args.flags['typename'] ?? [];
+    const ids = args.flags['id'] ?? [];
+    const tags = args.flags['tag'] ?? [];
+    if (ids.length > 0 && typenames.length !== 1) {
+      throw new UsageError('--id requires a --typename');
+    }
+    if (typenames.length === 0 && tags.length === 0) {
+      throw new UsageError('invalidate requires --typename or --tag');
+    }
+
+    const stats: DeletionStats[] = [];
+    const entities =
+      ids.length > 0
+        ? ids.map(id => ({typename: typenames[0], id}))
+        : typenames.map(typename => ({typename}));
+    if (entities.length > 0) stats.push(await cache.invalidate(entities));
+    if (tags.length > 0) stats.push(await cache.invalidateTags(tags));
+    return sumDeletionStats(stats);
+  },
+
+  async 'purge-expired'(args, {cache}) {
+    const cursor = last(args, 'cursor');
+    const options: CleanupOptions = {
+      timeBudgetMs: number(args, 'time-budget-ms'),
+      maxDocuments: number(args, 'max-documents'),
+      batchSize: number(args, 'batch-size'),
+      concurrency: number(args, 'concurrency'),
+      dryRun: last(args, 'dry-run') === 'true',
+      cursor: cursor ? parseCursor(cursor) : undefined,
+    };
+    return cache.deleteExpiredCacheEntry(options);
+  },
+
+  async stats(args, {cache, collectionPath}) {
+    const typename = last(args, 'typename');
+    const entries = await cache.countEntries({typename});
+    const expired = await cache.countEntries({typename, expired: true});
+    return {collectionPath, entries, expired};
+  },
+
+  list(args, {cache}) {
+    return cache.listEntries({
+      typename: last(args, 'typename'),
+      limit: number(args, 'limit'),
+      cursor: last(args, 'cursor'),
+    });
+  },
+
+  async get(args, {cache}) {
+    const [key] = args.positionals;
+    if (key === undefined) throw new UsageError('get requires <key>');
+    // not cache.get, which deletes expired entries still served within the grace period of others
+    return (await cache.peekEntry(key, last(args, 'partition'))) ?? null;
+  },
+
+  async 'flush-all'(args, {cache, collectionPath}, io) {
+    if (last(args, 'yes') !== 'true') {
+      const answer = await io.prompt(
+        `Delete all entries of "${collectionPath}"? Type the collection path to confirm: `
+      );
+      if (answer === undefined) {
+        throw new UsageError('flush-all requires --yes when not interactive');
+      }
+      if (answer.trim() !== collectionPath) {
+        io.stderr('Aborted\n');
+        return undefined;
+      }
+    }
+    await cache.purgeCollection();
+    return {flushed: collectionPath};
+  },
+};
+
+/**
+ * Run the command and resolve the exit code.
+ */
+export async function main(argv: string[], io: CliIO): Promise<number> {
+  let conn: Connection | undefined;
+  try {
+    const args = parseArgs(argv);
+    if (args.flags['help'] || !args.command) {
+      io.stdout(usage);
+      return args.command || args.flags['help'] ? 0 : 1;
+    }
+    const command = commands[args.command];
+    if (!command) throw new UsageError(`unknown command: ${args.command}`);
+
+    conn = io.connect(connectOptions(args));
+    const result = await command(args, conn, io);
+    if (result !== undefined) {
+      io.stdout(`${JSON.stringify(result, null, 2)}\n`);
+    }
+    return 0;
+  } catch (e) {
+    if (e instanceof UsageError) {
+      io.stderr(`${e.message}\n\n${usage}`);
+      return 2;
+    }
+    io.stderr(`${e instanceof Error ? e.message : String(e)}\n`);
+    return 1;
+  } finally {
+    await conn?.cache.close();
+    await conn?.firestore.terminate();
+  }
+}
+
+function connect(options: ConnectOptions): Connection {
+  if (options.emulatorHost) {
+    process.env.FIRESTORE_EMULATOR_HOST = options.emulatorHost;
+  }
+  const firestore = new Firestore(
+    options.projectId ? {projectId: options.projectId} : {}
+  );
+  const cache = createFirestoreCache({
+    firestore,
+    collectionPath: options.collectionPath,
+    documentIdStrategy: options.documentIdStrategy,
+  });
+  return {firestore, cache, collectionPath: options.collectionPath};
+}
+
+function prompt(question: string): Promise<string | undefined> {
+  if (!process.stdin.isTTY) return Promise.resolve(undefined);
+  const rl = createInterface({input: process.stdin, output: process.stderr});
+  return new Promise(resolve =>
+    rl.question(question, answer => {
+      rl.close();
+      resolve(answer);
+    })
+  );
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2), {
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text),
+    prompt,
+    connect,
+  }).then(code => {
+    process.exitCode = code;
+  });
+}
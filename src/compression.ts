@@ -0,0 +1,69 @@
+import {promisify} from 'util';
+import {
+  brotliCompress,
+  brotliDecompress,
+  deflate,
+  gunzip,
+  gzip,
+  inflate,
+} from 'zlib';
+
+export type CompressionAlgorithm = 'gzip' | 'deflate' | 'brotli';
+
+export type CompressionOptions = {
+  /**
+   * Compression algorithm provided by node zlib
+   * @defaultValue "gzip"
+   */
+  algorithm?: CompressionAlgorithm;
+
+  /**
+   * Minimum payload size in bytes to compress, smaller payloads are stored as plain string
+   * @defaultValue 1024
+   */
+  threshold?: number;
+};
+
+export type EncodedPayload = {
+  payload: string | Buffer;
+  encoding?: CompressionAlgorithm;
+};
+
+const compressors = {
+  gzip: promisify(gzip),
+  deflate: promisify(deflate),
+  brotli: promisify(brotliCompress),
+};
+
+const decompressors = {
+  gzip: promisify(gunzip),
+  deflate: promisify(inflate),
+  brotli: promisify(brotliDecompress),
+};
+
+export const defaultCompressionThreshold = 1024;
+
+export async function encodePayload(
+  json: string,
+  options?: CompressionOptions
+): Promise<EncodedPayload> {
+  if (!options) return {payload: json};
+
+  const threshold = options.threshold ?? defaultCompressionThreshold;
+  if (Buffer.byteLength(json) < threshold) return {payload: json};
+
+  const algorithm = options.algorithm ?? 'gzip';
+  const payload = await compressors[algorithm](json);
+  return {payload, encoding: algorithm};
+}
+
+export async function decodePayload({
+  payload,
+  encoding,
+}: EncodedPayload): Promise<string> {
+  if (!encoding) return payload.toString();
+
+  const decompress = decompressors[encoding];
+  if (!decompress) throw new Error(`unknown payload encoding: ${encoding}`);
+  return (await decompress(payload)).toString();
+}
@@ -0,0 +1,41 @@
+export type ComputationTracker = {
+  start(id: string): void;
+  finish(id: string): Date;
+};
+
+const maxTrackedComputations = 10000;
+
+export const defaultMaxComputationMs = 60 * 1000;
+
+/**
+ * Tracks when computation of each response started.
+ * envelop calls `get` before executing operations, so a miss is the start of computation.
+ * Start times older than maxComputationMs belong to responses never written, like errors.
+ */
+export function createComputationTracker(
+  maxComputationMs = defaultMaxComputationMs
+): ComputationTracker {
+  const startedAt = new Map<string, number>();
+
+  return {
+    start(id) {
+      // keep the earliest one for concurrent computations
+      const now = Date.now();
+      const time = startedAt.get(id);
+      if (time !== undefined && time > now - maxComputationMs) return;
+
+      startedAt.delete(id);
+      startedAt.set(id, now);
+      if (startedAt.size > maxTrackedComputations) {
+        // drop the oldest, which is not written for some reason
+        startedAt.delete(startedAt.keys().next().value);
+      }
+    },
+
+    finish(id) {
+      const time = startedAt.get(id) ?? Date.now();
+      startedAt.delete(id);
+      return new Date(time);
+    },
+  };
+}
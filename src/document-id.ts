@@ -0,0 +1,19 @@
+import {createHash} from 'crypto';
+
+/**
+ * How to convert response cache keys to Firestore document ids
+ * - "raw": use keys as is
+ * - "sha256": use hex digest of keys
+ * - function: custom conversion
+ */
+export type DocumentIdStrategy = 'raw' | 'sha256' | ((key: string) => string);
+
+export function createDocumentIdBuilder(
+  strategy: DocumentIdStrategy
+): (key: string) => string {
+  if (typeof strategy === 'function') return strategy;
+  if (strategy === 'sha256') {
+    return key => createHash('sha256').update(key).digest('hex');
+  }
+  return key => key;
+}
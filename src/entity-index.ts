@@ -0,0 +1,146 @@
+import {createHash} from 'crypto';
+import type {
+  CollectionReference,
+  DocumentReference,
+  Firestore,
+  Query,
+} from '@google-cloud/firestore';
+import chunk from 'lodash.chunk';
+import {ChunkInfo, chunkRefs} from './chunking';
+import type {DeleteResult} from './stats';
+
+/**
+ * Where to store entity ids of entries for invalidation
+ * - "array": `entityIds` array field of entries
+ * - "collection": mapping documents of entity id to entry in the index collection
+ */
+export type EntityIndexMode = 'array' | 'collection';
+
+export type EntityIndex = {
+  write(
+    entry: DocumentReference,
+    entityIds: string[],
+    expireAt: Date | null
+  ): Promise<unknown>;
+  deleteEntries(entityIds: string[]): Promise<DeleteResult>;
+  entityIds(entry: DocumentReference): Promise<string[]>;
+  expiredQuery(): Query;
+};
+
+const batchSize = 500;
+
+export function createEntityIndex(
+  db: Firestore,
+  collectionPath: string,
+  entries: CollectionReference
+): EntityIndex {
+  const collection = db.collection(collectionPath);
+
+  // entity ids and entry ids may be up to 1500 bytes each
+  function indexId(entityId: string, entryKey: string): string {
+    return createHash('sha256')
+      .update(entityId)
+      .update('\0')
+      .update(entryKey)
+      .digest('hex');
+  }
+
+  // resolves the number of committed batches
+  async function commitDeletes(refs: DocumentReference[]) {
+    const batches = chunk(refs, batchSize);
+    await Promise.all(
+      batches.map(refs => {
+        const batch = db.batch();
+        refs.forEach(ref => batch.delete(ref));
+        return batch.commit();
+      })
+    );
+    return batches.length;
+  }
+
+  // index documents of the entry
+  async function indexDocs(entry: DocumentReference) {
+    const snapshot = await collection.where('entryId', '==', entry.id).get();
+    return snapshot.docs.filter(
+      doc =>
+        ((doc.get('entryPath') as string | undefined) ??
+          entries.doc(entry.id).path) === entry.path
+    );
+  }
+
+  return {
+    async write(entry, entityIds, expireAt) {
+      // entries outside of the cache collection, like partition subcollections, are kept by path
+      const entryPath =
+        entry.parent.path === entries.path ? undefined : entry.path;
+      // entities no longer contained by the rewritten entry
+      const current = new Set(entityIds);
+      const stale = (await indexDocs(entry))
+        .filter(doc => !current.has(doc.get('entityId')))
+        .map(doc => doc.ref);
+      await Promise.all([
+        commitDeletes(stale),
+        ...chunk(entityIds, batchSize).map(entityIds => {
+          const batch = db.batch();
+          entityIds.forEach(entityId =>
+            batch.set(
+              collection.doc(indexId(entityId, entryPath ?? entry.id)),
+              {
+                entityId,
+                entryId: entry.id,
+                ...(entryPath ? {entryPath} : {}),
+                expireAt,
+              }
+            )
+          );
+          return batch.commit();
+        }),
+      ]);
+    },
+
+    async deleteEntries(entityIds) {
+      const result = {deleted: 0, batches: 0};
+      for (const ids of chunk(entityIds, 10)) {
+        const query = collection.where('entityId', 'in', ids).limit(batchSize);
+        for (;;) {
+          const snapshot = await query.get();
+          if (snapshot.empty) break;
+
+          const entryPaths = snapshot.docs.map(
+            doc =>
+              (doc.get('entryPath') as string | undefined) ??
+              entries.doc(doc.get('entryId')).path
+          );
+          const entryRefs = Array.from(new Set(entryPaths), path =>
+            db.doc(path)
+          );
+          const refs: DocumentReference[] = [];
+          for (const entry of await db.getAll(...entryRefs)) {
+            if (!entry.exists) continue;
+            result.deleted++;
+            const chunks: ChunkInfo | undefined = entry.get('chunks');
+            refs.push(
+              entry.ref,
+              ...(chunks ? chunkRefs(entry.ref, chunks) : [])
+            );
+          }
+          result.batches += await commitDeletes(refs);
+          result.batches += await commitDeletes(
+            snapshot.docs.map(doc => doc.ref)
+          );
+        }
+      }
+      return result;
+    },
+
+    async entityIds(entry) {
+      return (await indexDocs(entry)).map(doc => doc.get('entityId') as string);
+    },
+
+    expiredQuery() {
+      return collection
+        .where('expireAt', '<', new Date())
+        .orderBy('expireAt', 'asc');
+    },
+  };
+}
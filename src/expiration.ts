@@ -0,0 +1,22 @@
+/**
+ * Shortens TTL randomly by the ratio, e.g. 0.1 makes TTL 90%-100% of the given one
+ */
+export function jitterTtl(ttl: number, jitter: number): number {
+  if (!isFinite(ttl) || jitter <= 0) return ttl;
+  return ttl * (1 - Math.random() * Math.min(jitter, 1));
+}
+
+/**
+ * Probabilistic early expiration (XFetch)
+ * Entries taking longer to compute and closer to expiration are more likely to expire.
+ * @see https://cseweb.ucsd.edu/~avattani/papers/cache_stampede.pdf
+ */
+export function expiresEarly(
+  expireAt: Date,
+  computeMs: number,
+  beta: number,
+  now = Date.now()
+): boolean {
+  if (beta <= 0 || computeMs <= 0) return false;
+  return now - computeMs * beta * Math.log(Math.random()) >= expireAt.getTime();
+}
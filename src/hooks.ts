@@ -0,0 +1,46 @@
+import type {InvalidationTargets} from './invalidation-log';
+
+export type HitEvent = {
+  id: string; // response id
+  source: 'memory' | 'firestore';
+  stale: boolean; // served within the grace period or expired early
+};
+
+export type MissEvent = {
+  id: string;
+};
+
+export type ExpiredEvent = {
+  id: string;
+  expireAt: Date;
+};
+
+export type SetEvent = {
+  id: string;
+  bytes: number; // payload bytes stored, after compression
+  entities: number;
+  ttl: number;
+};
+
+export type InvalidateEvent = {
+  targets: InvalidationTargets;
+  deleted: number; // entry documents deleted, 0 in "version" invalidation mode
+  durationMs: number;
+};
+
+export type ErrorEvent = {
+  operation: 'get' | 'set' | 'invalidate' | 'deleteExpiredCacheEntry';
+  id?: string; // response id of get and set
+};
+
+export type CacheHooks = {
+  onHit?: (event: HitEvent) => void;
+  onMiss?: (event: MissEvent) => void;
+  /** Called when an expired entry is read, even if it is served within the grace period */
+  onExpired?: (event: ExpiredEvent) => void;
+  /** Called after an entry is written */
+  onSet?: (event: SetEvent) => void;
+  onInvalidate?: (event: InvalidateEvent) => void;
+  /** Called with errors before they are thrown, or instead of throwing them with failOpen */
+  onError?: (error: unknown, event: ErrorEvent) => void;
+};
@@ -1 +1,48 @@
 export * from './cache';
+export type {CompressionAlgorithm, CompressionOptions} from './compression';
+export type {MemoryCacheOptions} from './memory';
+export type {InvalidationLogOptions} from './invalidation-log';
+export type {InvalidationMode} from './versions';
+export type {LeaseOptions} from './lease';
+export type {WriteBehindOptions} from './write-behind';
+export * from './shutdown';
+export type {DocumentIdStrategy} from './document-id';
+export type {EntityIndexMode} from './entity-index';
+export type {ResponseCacheParameters} from './operation';
+export type {PartitionKeyParams, PartitionOptions} from './partition';
+export type {
+  CacheHooks,
+  ErrorEvent,
+  ExpiredEvent,
+  HitEvent,
+  InvalidateEvent,
+  MissEvent,
+  SetEvent,
+} from './hooks';
+export type {Span, Tracer} from './tracing';
+export type {
+  CircuitBreakerOptions,
+  CircuitState,
+  FailOpenOptions,
+} from './circuit-breaker';
+export type {DeletionReason, DeletionStats} from './stats';
+export type {
+  CleanupCursor,
+  CleanupOptions,
+  CleanupPhase,
+  CleanupResult,
+} from './cleanup';
+export * from './admin';
+export type {
+  CountEntriesOptions,
+  EntryFilter,
+  EntryMetadata,
+  ListEntriesOptions,
+  ListEntriesResult,
+} from './inspection';
+export type {
+  ExportResult,
+  ImportOptions,
+  ImportResult,
+  SnapshotRecord,
+} from './snapshot';
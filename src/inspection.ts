@@ -0,0 +1,72 @@
+import type {Query} from '@google-cloud/firestore';
+
+/** Read-only view of a cache entry, without its payload */
+export type EntryMetadata = {
+  key: string; // response cache key, prefixed with the collection path by the collectionPath resolver
+  path: string; // Firestore document path
+  expireAt: Date | null;
+  ttlMs: number | null; // remaining time, 0 if expired, null without expiration
+  bytes?: number; // stored payload size, compressed and including chunks, unknown for entries of older versions
+  typenames: string[];
+  entityCount: number;
+  createdAt?: Date; // unknown for entries of older versions
+  tags?: string[];
+  operationName?: string;
+  partition?: string;
+};
+
+export type EntryFilter = {
+  /** Entries including the type */
+  typename?: string;
+
+  /** Entries including the entity, not available with the "collection" entity index */
+  entity?: {typename: string; id: string | number};
+};
+
+export type ListEntriesOptions = EntryFilter & {
+  /**
+   * Resume from the cursor returned by the previous page
+   * @defaultValue undefined
+   */
+  cursor?: string;
+
+  /**
+   * Maximum number of entries in a page
+   * @defaultValue 100
+   */
+  limit?: number;
+};
+
+export type CountEntriesOptions = EntryFilter & {
+  /**
+   * Count only entries expired but not deleted yet
+   * @defaultValue false
+   */
+  expired?: boolean;
+};
+
+export type ListEntriesResult = {
+  entries: EntryMetadata[];
+  cursor?: string; // present when more entries may follow
+};
+
+// entry fields read for metadata, not to load payloads
+export const metadataFields = [
+  'key',
+  'expireAt',
+  'bytes',
+  'typenames',
+  'entityIds',
+  'entityCount',
+  'startedAt',
+  'computeMs',
+  'tags',
+  'operationName',
+  'partition',
+];
+
+/** Count documents matched to the query by an aggregation query */
+export async function countQuery(query: Query): Promise<number> {
+  const snapshot = await query.count().get();
+  return snapshot.data().count;
+}
@@ -0,0 +1,151 @@
+import type {
+  DocumentData,
+  Firestore,
+  FirestoreDataConverter,
+  Query,
+  QueryDocumentSnapshot,
+  Timestamp,
+} from '@google-cloud/firestore';
+
+export type InvalidationLogOptions = {
+  /**
+   * Firestore collection path to store invalidation events
+   * @defaultValue `${collectionPath}Invalidations`
+   */
+  collectionPath?: string;
+
+  /**
+   * Time in ms to keep invalidation events
+   * Expired events are deleted by `deleteExpiredCacheEntry`.
+   * @defaultValue 3600000 (1 hour)
+   */
+  retention?: number;
+};
+
+/** values of entry fields to invalidate entries by */
+export type InvalidationTargets = {
+  typenames: string[];
+  entityIds: string[];
+  tags: string[];
+  operationNames: string[];
+  coordinates: string[];
+  partitions: string[];
+};
+
+export type InvalidationEvent = InvalidationTargets & {
+  createdAt: Date;
+  expireAt: Date;
+};
+
+export type InvalidationLog = {
+  append(targets: InvalidationTargets): Promise<unknown>;
+  listen(
+    onEvent: (event: InvalidationEvent) => void,
+    onReconnect: () => void
+  ): () => void;
+  expiredQuery(): Query;
+};
+
+// events appended by older versions lack the fields added later
+type InvalidationEventFS = Pick<InvalidationEvent, 'typenames' | 'entityIds'> &
+  Partial<InvalidationTargets> & {
+    createdAt: Timestamp;
+    expireAt: Timestamp;
+  };
+
+const converter: FirestoreDataConverter<InvalidationEvent> = {
+  toFirestore(event: InvalidationEvent): DocumentData {
+    return event;
+  },
+  fromFirestore(
+    snapshot: QueryDocumentSnapshot<InvalidationEventFS>
+  ): InvalidationEvent {
+    const data = snapshot.data();
+    return {
+      ...data,
+      tags: data.tags ?? [],
+      operationNames: data.operationNames ?? [],
+      coordinates: data.coordinates ?? [],
+      partitions: data.partitions ?? [],
+      createdAt: data.createdAt.toDate(),
+      expireAt: data.expireAt.toDate(),
+    };
+  },
+};
+
+// events are ordered by the clock of each instance, so look back a little on listening
+const clockSkew = 60 * 1000;
+
+const maxReconnectDelay = 30 * 1000;
+
+export const defaultInvalidationLogRetention = 60 * 60 * 1000;
+
+export function createInvalidationLog(
+  db: Firestore,
+  collectionPath: string,
+  options: InvalidationLogOptions
+): InvalidationLog {
+  const collection = db
+    .collection(options.collectionPath ?? `${collectionPath}Invalidations`)
+    .withConverter(converter);
+  const retention = options.retention ?? defaultInvalidationLogRetention;
+
+  return {
+    append(targets) {
+      const now = Date.now();
+      return collection.add({
+        ...targets,
+        createdAt: new Date(now),
+        expireAt: new Date(now + retention),
+      });
+    },
+
+    listen(onEvent, onReconnect) {
+      let since = new Date(Date.now() - clockSkew);
+      let unsubscribe: (() => void) | undefined;
+      let timer: NodeJS.Timeout | undefined;
+      let retries = 0;
+      let stopped = false;
+
+      const subscribe = () => {
+        unsubscribe = collection
+          .where('createdAt', '>', since)
+          .orderBy('createdAt', 'asc')
+          .onSnapshot(
+            snapshot => {
+              retries = 0;
+              for (const change of snapshot.docChanges()) {
+                if (change.type !== 'added') continue;
+                const event = change.doc.data();
+                onEvent(event);
+                if (since < event.createdAt) since = event.createdAt;
+              }
+            },
+            () => {
+              // the listener stops on errors, subscribe again with backoff
+              if (stopped) return;
+              const delay = Math.min(1000 * 2 ** retries++, maxReconnectDelay);
+              timer = setTimeout(() => {
+                onReconnect();
+                subscribe();
+              }, delay);
+              timer.unref();
+            }
+          );
+      };
+      subscribe();
+
+      return () => {
+        stopped = true;
+        if (timer) clearTimeout(timer);
+        unsubscribe?.();
+      };
+    },
+
+    expiredQuery() {
+      return collection
+        .where('expireAt', '<', new Date())
+        .orderBy('expireAt', 'asc');
+    },
+  };
+}
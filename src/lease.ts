@@ -0,0 +1,191 @@
+import {createHash, randomUUID} from 'crypto';
+import type {
+  DocumentReference,
+  Firestore,
+  Query,
+} from '@google-cloud/firestore';
+
+export type LeaseOptions = {
+  /**
+   * Firestore collection path to store leases
+   * @defaultValue `${collectionPath}Leases`
+   */
+  collectionPath?: string;
+
+  /**
+   * Time in ms until a lease expires if the holder doesn't write the entry
+   * @defaultValue 10000
+   */
+  ttl?: number;
+
+  /**
+   * Time in ms to wait for the lease holder writing the entry, when no stale entry is available
+   * Responses computed while waiting are not written.
+   * @defaultValue 1000
+   */
+  waitMs?: number;
+
+  /**
+   * Interval in ms to read the entry while waiting
+   * @defaultValue 100
+   */
+  pollIntervalMs?: number;
+};
+
+export type LeaseStore = {
+  /** Takes the lease to recompute the entry, returns false if another holds it */
+  acquire(entry: DocumentReference): Promise<boolean>;
+
+  /** Whether this instance may write the entry, forgetting the acquired or lost lease */
+  settle(entry: DocumentReference): {
+    writable: boolean;
+    release(): Promise<unknown>;
+  };
+
+  expiredQuery(): Query;
+};
+
+type LeaseState = {
+  token?: string; // present when this instance holds the lease
+  expireAt: number;
+  waiters: number; // callers of this instance which failed to take the lease
+};
+
+// gRPC status codes
+const ALREADY_EXISTS = 6;
+const NOT_FOUND = 5;
+const FAILED_PRECONDITION = 9;
+
+const maxTrackedLeases = 10000;
+
+// entries of different collections like tenants may share document ids
+function leaseId(entry: DocumentReference): string {
+  return createHash('sha256').update(entry.path).digest('hex');
+}
+
+function hasCode(e: unknown, ...codes: number[]): boolean {
+  return codes.includes((e as {code?: number})?.code ?? -1);
+}
+
+export function createLeaseStore(
+  db: Firestore,
+  collectionPath: string,
+  options: LeaseOptions
+): LeaseStore {
+  const collection = db.collection(
+    options.collectionPath ?? `${collectionPath}Leases`
+  );
+  const ttl = options.ttl ?? 10000;
+
+  const states = new Map<string, LeaseState>();
+
+  function track(id: string, state: LeaseState) {
+    states.delete(id);
+    states.set(id, state);
+    if (states.size > maxTrackedLeases) {
+      states.delete(states.keys().next().value);
+    }
+  }
+
+  async function create(id: string, token: string): Promise<boolean> {
+    try {
+      await collection
+        .doc(id)
+        .create({token, expireAt: new Date(Date.now() + ttl)});
+      return true;
+    } catch (e) {
+      if (!hasCode(e, ALREADY_EXISTS)) throw e;
+      return false;
+    }
+  }
+
+  async function take(id: string, token: string): Promise<boolean> {
+    if (await create(id, token)) return true;
+
+    // take over the expired lease unless another instance did it
+    const ref = collection.doc(id);
+    const snapshot = await ref.get();
+    if (!snapshot.exists) return create(id, token);
+    if (snapshot.get('expireAt')?.toMillis() > Date.now()) return false;
+    try {
+      await ref.update(
+        {token, expireAt: new Date(Date.now() + ttl)},
+        {lastUpdateTime: snapshot.updateTime}
+      );
+      return true;
+    } catch (e) {
+      if (!hasCode(e, NOT_FOUND, FAILED_PRECONDITION)) throw e;
+      return false;
+    }
+  }
+
+  function held(state: LeaseState | undefined): state is LeaseState {
+    return !!state?.token && state.expireAt > Date.now();
+  }
+
+  return {
+    async acquire(entry) {
+      const id = leaseId(entry);
+      // wait for the holder of this instance instead of taking over its token
+      const local = states.get(id);
+      if (held(local)) {
+        local.waiters++;
+        return false;
+      }
+
+      const token = randomUUID();
+      const acquired = await take(id, token);
+      const state = states.get(id);
+      if (!acquired && held(state)) {
+        state.waiters++;
+        return false;
+      }
+      const waiting = state && state.expireAt > Date.now() ? state.waiters : 0;
+      track(id, {
+        ...(acquired ? {token} : {}),
+        expireAt: Date.now() + ttl,
+        waiters: acquired ? waiting : waiting + 1,
+      });
+      return acquired;
+    },
+
+    settle(entry) {
+      const id = leaseId(entry);
+      const state = states.get(id);
+
+      // the holder settles first, then waiters of this instance
+      if (state?.token) {
+        if (state.waiters > 0) {
+          states.set(id, {expireAt: state.expireAt, waiters: state.waiters});
+        } else {
+          states.delete(id);
+        }
+      } else if (state && --state.waiters <= 0) {
+        states.delete(id);
+      }
+
+      // another caller is recomputing
+      if (state && !state.token && state.expireAt > Date.now()) {
+        return {writable: false, release: async () => {}};
+      }
+
+      return {
+        writable: true,
+        async release() {
+          if (!state?.token) return;
+          const ref = collection.doc(id);
+          return db.runTransaction(async tx => {
+            const snapshot = await tx.get(ref);
+            if (snapshot.get('token') === state.token) tx.delete(ref);
+          });
+        },
+      };
+    },
+
+    expiredQuery() {
+      return collection
+        .where('expireAt', '<', new Date())
+        .orderBy('expireAt', 'asc');
+    },
+  };
+}
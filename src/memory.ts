@@ -0,0 +1,134 @@
+export type MemoryCacheOptions = {
+  /**
+   * Maximum number of entries kept in memory
+   * @defaultValue 1000
+   */
+  maxEntries?: number;
+
+  /**
+   * Maximum total bytes of payloads kept in memory
+   * @defaultValue 16777216 (16 MiB)
+   */
+  maxBytes?: number;
+
+  /**
+   * Maximum time in ms to keep an entry in memory, regardless of its TTL
+   * Other instances' invalidation is not reflected until this passes.
+   * @defaultValue 5000
+   */
+  ttl?: number;
+};
+
+export type MemoryEntry = {
+  payload: string; // JSON
+  expireAt: Date | null;
+  typenames: string[];
+  entityIds: string[];
+  tags?: string[];
+  operationName?: string;
+  coordinates?: string[];
+  partition?: string;
+};
+
+export type MemoryEntryMeta = Omit<MemoryEntry, 'payload' | 'expireAt'>;
+
+export type MemoryCache = {
+  get(id: string): string | undefined;
+  set(id: string, entry: MemoryEntry): void;
+  delete(id: string): void;
+  invalidate(typenames: Iterable<string>, entityIds: Iterable<string>): void;
+  invalidateWhere(predicate: (meta: MemoryEntryMeta) => boolean): void;
+  clear(): void;
+};
+
+type Stored = {
+  payload: string;
+  size: number;
+  expireAt: number;
+  meta: MemoryEntryMeta;
+};
+
+/**
+ * In-process LRU cache placed in front of Firestore.
+ * Map keeps insertion order, so the first key is the least recently used.
+ */
+export function createMemoryCache(options: MemoryCacheOptions): MemoryCache {
+  const maxEntries = options.maxEntries ?? 1000;
+  const maxBytes = options.maxBytes ?? 16 * 1024 * 1024;
+  const ttl = options.ttl ?? 5000;
+
+  const entries = new Map<string, Stored>();
+  let totalBytes = 0;
+
+  function remove(id: string) {
+    const stored = entries.get(id);
+    if (!stored) return;
+    totalBytes -= stored.size;
+    entries.delete(id);
+  }
+
+  function invalidateWhere(predicate: (meta: MemoryEntryMeta) => boolean) {
+    for (const [id, stored] of entries) {
+      if (predicate(stored.meta)) remove(id);
+    }
+  }
+
+  return {
+    get(id) {
+      const stored = entries.get(id);
+      if (!stored) return undefined;
+
+      remove(id);
+      if (stored.expireAt <= Date.now()) return undefined;
+
+      // move to the most recently used
+      entries.set(id, stored);
+      totalBytes += stored.size;
+      return stored.payload;
+    },
+
+    set(id, {payload, expireAt, ...meta}) {
+      remove(id);
+
+      const size = Buffer.byteLength(payload);
+      if (size > maxBytes) return;
+
+      const limit = Date.now() + ttl;
+      entries.set(id, {
+        payload,
+        size,
+        expireAt: expireAt ? Math.min(expireAt.getTime(), limit) : limit,
+        meta,
+      });
+      totalBytes += size;
+
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries && totalBytes <= maxBytes) break;
+        remove(oldest);
+      }
+    },
+
+    delete(id) {
+      remove(id);
+    },
+
+    invalidate(typenames, entityIds) {
+      const t = new Set(typenames);
+      const e = new Set(entityIds);
+      if (t.size === 0 && e.size === 0) return;
+
+      invalidateWhere(
+        meta =>
+          meta.typenames.some(typename => t.has(typename)) ||
+          meta.entityIds.some(entityId => e.has(entityId))
+      );
+    },
+
+    invalidateWhere,
+
+    clear() {
+      entries.clear();
+      totalBytes = 0;
+    },
+  };
+}
@@ -0,0 +1,188 @@
+import {createHash} from 'crypto';
+import {defaultBuildResponseCacheKey} from '@envelop/response-cache';
+import type {
+  BuildResponseCacheKeyFunction,
+  GetDocumentStringFunction,
+} from '@envelop/response-cache';
+import {getOperationAST, Kind, print} from 'graphql';
+import type {
+  DocumentNode,
+  ExecutionArgs,
+  FragmentDefinitionNode,
+  SelectionSetNode,
+} from 'graphql';
+
+export type ResponseCacheParameters = {
+  getDocumentString: GetDocumentStringFunction;
+  buildResponseCacheKey: BuildResponseCacheKeyFunction;
+};
+
+/** Execution of the operation whose response is cached with the key */
+export type Operation = {
+  args: ExecutionArgs;
+  documentString: string;
+  sessionId?: string | null;
+  partition?: string; // resolved when the key is built
+};
+
+export type OperationMetadata = {
+  operationName?: string;
+  documentHash: string; // sha256 of the document string
+  coordinates: string[]; // root fields like "Query.users"
+};
+
+export type OperationRegistry = {
+  responseCacheParameters(
+    params?: Partial<ResponseCacheParameters>
+  ): ResponseCacheParameters;
+  get(key: string): Operation | undefined;
+  delete(key: string): void;
+};
+
+const maxTrackedOperations = 10000;
+
+const scopeSeparator = '\0';
+
+const printed = new WeakMap<DocumentNode, string>();
+
+function printDocument(args: ExecutionArgs): string {
+  let documentString = printed.get(args.document);
+  if (documentString === undefined) {
+    documentString = print(args.document);
+    printed.set(args.document, documentString);
+  }
+  return documentString;
+}
+
+/**
+ * Associates response cache keys with their executions.
+ * useResponseCache calls `getDocumentString` and then `buildResponseCacheKey` synchronously,
+ * so the execution args received by the former belong to the key built by the latter.
+ * Keys are prefixed with the scope and the partition, unless it is the session.
+ */
+export function createOperationRegistry(
+  scope?: (args: ExecutionArgs) => string,
+  partition?: (id: string, operation: Operation) => string | undefined
+): OperationRegistry {
+  const operations = new Map<string, Operation>();
+
+  return {
+    responseCacheParameters(params = {}) {
+      const getDocumentString = params.getDocumentString ?? printDocument;
+      const buildResponseCacheKey =
+        params.buildResponseCacheKey ?? defaultBuildResponseCacheKey;
+
+      let current: ExecutionArgs | undefined;
+
+      return {
+        getDocumentString(args) {
+          current = args;
+          return getDocumentString(args);
+        },
+
+        async buildResponseCacheKey(keyParams) {
+          const args = current;
+          current = undefined;
+
+          const built = await buildResponseCacheKey(keyParams);
+          if (!args) return built;
+
+          // keys of executions in different scopes must not be shared
+          const path = scope?.(args);
+          const operation: Operation = {
+            args,
+            documentString: keyParams.documentString,
+            sessionId: keyParams.sessionId,
+          };
+          const resolved = partition?.(
+            path === undefined ? built : joinScope(path, built),
+            operation
+          );
+          let key = built;
+          if (resolved !== undefined) {
+            operation.partition = resolved;
+            // nor of different partitions, while the session is already part of the key.
+            // hashed not to put "/" or too long partitions into document ids
+            if (resolved !== keyParams.sessionId) {
+              key = joinScope(hashPartition(resolved), key);
+            }
+          }
+          if (path !== undefined) key = joinScope(path, key);
+
+          operations.delete(key);
+          operations.set(key, operation);
+          if (operations.size > maxTrackedOperations) {
+            operations.delete(operations.keys().next().value);
+          }
+          return key;
+        },
+      };
+    },
+
+    get(key) {
+      return operations.get(key);
+    },
+
+    delete(key) {
+      operations.delete(key);
+    },
+  };
+}
+
+function hashPartition(partition: string): string {
+  return createHash('sha256').update(partition).digest('hex');
+}
+
+/** Prefix the key with the scope */
+export function joinScope(scope: string, key: string): string {
+  return `${scope}${scopeSeparator}${key}`;
+}
+
+/** Split a key built with the scope into the scope and the original key */
+export function splitScope(key: string): [string, string] | undefined {
+  const i = key.indexOf(scopeSeparator);
+  if (i < 0) return undefined;
+  return [key.slice(0, i), key.slice(i + scopeSeparator.length)];
+}
+
+export function describeOperation({
+  args,
+  documentString,
+}: Operation): OperationMetadata {
+  const operation = getOperationAST(args.document, args.operationName);
+  const rootType = operation && args.schema.getRootType(operation.operation);
+
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  for (const definition of args.document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments.set(definition.name.value, definition);
+    }
+  }
+
+  const coordinates = new Set<string>();
+  const visited = new Set<string>();
+  const collect = (selectionSet: SelectionSetNode) => {
+    for (const selection of selectionSet.selections) {
+      if (selection.kind === Kind.FIELD) {
+        const name = selection.name.value;
+        if (rootType && !name.startsWith('__')) {
+          coordinates.add(`${rootType.name}.${name}`);
+        }
+      } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+        collect(selection.selectionSet);
+      } else if (!visited.has(selection.name.value)) {
+        visited.add(selection.name.value);
+        const fragment = fragments.get(selection.name.value);
+        if (fragment) collect(fragment.selectionSet);
+      }
+    }
+  };
+  if (operation) collect(operation.selectionSet);
+
+  const operationName = args.operationName ?? operation?.name?.value;
+  return {
+    ...(operationName ? {operationName} : {}),
+    documentHash: createHash('sha256').update(documentString).digest('hex'),
+    coordinates: Array.from(coordinates),
+  };
+}
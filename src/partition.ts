@@ -0,0 +1,53 @@
+export type PartitionKeyParams = {
+  id: string; // response id, not prefixed with the partition
+  sessionId: string | null; // returned by the session function of useResponseCache
+  context: unknown; // contextValue of the execution
+};
+
+export type PartitionOptions = {
+  /**
+   * Resolve the partition of a response, null or undefined for no partition
+   * @defaultValue ({sessionId}) => sessionId
+   */
+  key?: (params: PartitionKeyParams) => string | null | undefined;
+
+  /**
+   * Store entries of each partition in its own subcollection
+   * `${collectionPath}/${partition}/${collection id of entries}`.
+   * Invalidation and cleanup use collection group queries then.
+   * @defaultValue false
+   */
+  subcollections?: boolean;
+
+  /**
+   * Firestore collection path of partition documents holding the subcollections
+   * Not available with the collectionPath resolver, which places them next to each collection.
+   * @defaultValue `${collectionPath}Partitions`
+   */
+  collectionPath?: string;
+};
+
+export type Partitions = {
+  resolve(params: PartitionKeyParams): string | undefined;
+  collectionPath(entriesPath: string, partition: string | undefined): string;
+};
+
+export function createPartitions(
+  collectionId: string, // id of entry collections
+  options: PartitionOptions
+): Partitions {
+  return {
+    resolve(params) {
+      const key = options.key ? options.key(params) : params.sessionId;
+      return key ?? undefined;
+    },
+
+    collectionPath(entriesPath, partition) {
+      if (!options.subcollections || partition === undefined) {
+        return entriesPath;
+      }
+      const base = options.collectionPath ?? `${entriesPath}Partitions`;
+      return `${base}/${encodeURIComponent(partition)}/${collectionId}`;
+    },
+  };
+}
@@ -0,0 +1,55 @@
+export type PendingTracker = {
+  track<T>(promise: Promise<T>): Promise<T>;
+  size(): number;
+  /** Waits for the promises pending at the time to settle */
+  settled(): Promise<void>;
+};
+
+export function createPendingTracker(): PendingTracker {
+  const pendings = new Set<Promise<unknown>>();
+
+  return {
+    track(promise) {
+      pendings.add(promise);
+      const remove = () => pendings.delete(promise);
+      promise.then(remove, remove);
+      return promise;
+    },
+
+    size() {
+      return pendings.size;
+    },
+
+    async settled() {
+      await Promise.all(
+        Array.from(pendings, p =>
+          p.then(
+            () => undefined,
+            () => undefined
+          )
+        )
+      );
+    },
+  };
+}
+
+/** Resolves false if the promise doesn't settle in time */
+export async function withTimeout(
+  promise: Promise<unknown>,
+  timeoutMs: number
+): Promise<boolean> {
+  if (!isFinite(timeoutMs)) {
+    await promise;
+    return true;
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<boolean>(resolve => {
+    timer = setTimeout(() => resolve(false), timeoutMs);
+  });
+  try {
+    return await Promise.race([promise.then(() => true), timeout]);
+  } finally {
+    if (timer) clearTimeout(timer);
+  }
+}
@@ -0,0 +1,47 @@
+import type {CacheFirestore} from './cache';
+
+export type DrainOnShutdownOptions = {
+  /**
+   * Time in ms to wait for pending writes
+   * Cloud Run gives 10 seconds after SIGTERM.
+   * @defaultValue 8000
+   */
+  timeoutMs?: number;
+
+  /**
+   * Signals to drain pending writes on
+   * @defaultValue ["SIGTERM"]
+   */
+  signals?: NodeJS.Signals[];
+};
+
+/**
+ * Closes the cache waiting for pending writes on the signals, then raises the signal again.
+ * Returns a function to remove the listeners.
+ */
+export function drainOnShutdown(
+  cache: CacheFirestore,
+  options: DrainOnShutdownOptions = {}
+): () => void {
+  const timeoutMs = options.timeoutMs ?? 8000;
+  const signals = options.signals ?? ['SIGTERM'];
+
+  const handlers = signals.map(signal => {
+    const handler = async () => {
+      try {
+        await cache.close(timeoutMs);
+      } finally {
+        // the listener has been removed, so other listeners or the default behavior take it
+        process.kill(process.pid, signal);
+      }
+    };
+    process.once(signal, handler);
+    return {signal, handler};
+  });
+
+  return () => {
+    handlers.forEach(({signal, handler}) =>
+      process.removeListener(signal, handler)
+    );
+  };
+}
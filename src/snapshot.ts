@@ -0,0 +1,104 @@
+import {createInterface} from 'readline';
+import type {Readable, Writable} from 'stream';
+
+/** A line of NDJSON snapshots, independent of compression and chunking */
+export type SnapshotRecord = {
+  key: string; // response cache key, prefixed with the collection path by the collectionPath resolver
+  data: unknown; // cached response
+  expireAt: string | null; // ISO 8601
+  ttlMs: number | null; // remaining time on export, null without expiration
+  typenames: string[];
+  entityIds: string[];
+  tags?: string[];
+  operationName?: string;
+  documentHash?: string;
+  coordinates?: string[];
+  partition?: string;
+};
+
+export type ImportOptions = {
+  /**
+   * Keep expireAt of the snapshot and skip entries expired since then,
+   * or expire after the remaining time on export from the import
+   * @defaultValue true
+   */
+  preserveTtl?: boolean;
+};
+
+export type ExportResult = {
+  exported: number;
+  skipped: number; // entries invalidated by version counters, or whose chunks are missing
+};
+
+export type ImportResult = {
+  imported: number;
+  skipped: number; // expired entries, or keys of unknown collections
+  batches: number;
+};
+
+export function importedExpireAt(
+  record: SnapshotRecord,
+  preserveTtl: boolean,
+  now: number
+): Date | null {
+  if (preserveTtl) {
+    return record.expireAt === null ? null : new Date(record.expireAt);
+  }
+  return record.ttlMs === null ? null : new Date(now + record.ttlMs);
+}
+
+/** Write the value as a line, waiting for the stream to drain */
+export async function writeLine(
+  stream: Writable,
+  value: unknown
+): Promise<void> {
+  if (stream.write(`${JSON.stringify(value)}\n`)) return;
+  await new Promise<void>((resolve, reject) => {
+    const onDrain = () => {
+      stream.off('error', onError);
+      resolve();
+    };
+    const onError = (e: Error) => {
+      stream.off('drain', onDrain);
+      reject(e);
+    };
+    stream.once('drain', onDrain);
+    stream.once('error', onError);
+  });
+}
+
+/** Read records line by line, skipping blank lines */
+export async function* readRecords(
+  stream: Readable
+): AsyncGenerator<SnapshotRecord> {
+  const lines = createInterface({input: stream, crlfDelay: Infinity});
+  let n = 0;
+  for await (const line of lines) {
+    n++;
+    if (line.trim() === '') continue;
+
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch (e) {
+      throw new Error(`invalid JSON at line ${n}`);
+    }
+    if (!isRecord(record)) {
+      throw new Error(`invalid snapshot record at line ${n}`);
+    }
+    yield record;
+  }
+}
+
+function isRecord(value: unknown): value is SnapshotRecord {
+  if (typeof value !== 'object' || value === null) return false;
+  const record = value as Partial<SnapshotRecord>;
+  return (
+    typeof record.key === 'string' &&
+    'data' in record &&
+    (record.expireAt === null || typeof record.expireAt === 'string') &&
+    (record.ttlMs === null || typeof record.ttlMs === 'number') &&
+    Array.isArray(record.typenames) &&
+    Array.isArray(record.entityIds)
+  );
+}
@@ -0,0 +1,74 @@
+/** What entries are deleted by */
+export type DeletionReason =
+  | 'typename'
+  | 'entity'
+  | 'tag'
+  | 'operation'
+  | 'coordinate'
+  | 'partition'
+  | 'expired';
+
+export type DeletionStats = {
+  deleted: Record<DeletionReason, number>; // entry documents, without chunks
+  batches: number; // committed batches, including other collections
+  elapsedMs: number;
+};
+
+export type DeleteResult = {
+  deleted: number;
+  batches: number;
+};
+
+export type DeletionStatsRecorder = {
+  /** Records the result, counting only batches without the reason */
+  add(reason: DeletionReason | undefined, result: DeleteResult): void;
+  result(): DeletionStats;
+};
+
+function zero(): Record<DeletionReason, number> {
+  return {
+    typename: 0,
+    entity: 0,
+    tag: 0,
+    operation: 0,
+    coordinate: 0,
+    partition: 0,
+    expired: 0,
+  };
+}
+
+export function createDeletionStatsRecorder(): DeletionStatsRecorder {
+  const startedAt = Date.now();
+  const deleted = zero();
+  let batches = 0;
+
+  return {
+    add(reason, result) {
+      if (reason) deleted[reason] += result.deleted;
+      batches += result.batches;
+    },
+
+    result() {
+      return {
+        deleted: {...deleted},
+        batches,
+        elapsedMs: Date.now() - startedAt,
+      };
+    },
+  };
+}
+
+/** Sum statistics of deletions run one after another */
+export function sumDeletionStats(stats: DeletionStats[]): DeletionStats {
+  const deleted = zero();
+  let batches = 0;
+  let elapsedMs = 0;
+  for (const s of stats) {
+    for (const reason of Object.keys(deleted) as DeletionReason[]) {
+      deleted[reason] += s.deleted[reason];
+    }
+    batches += s.batches;
+    elapsedMs += s.elapsedMs;
+  }
+  return {deleted, batches, elapsedMs};
+}
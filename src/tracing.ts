@@ -0,0 +1,50 @@
+/**
+ * Subset of Tracer of @opentelemetry/api
+ * Pass `trace.getTracer(name)` of @opentelemetry/api, which is not a dependency of this package.
+ */
+export type Tracer = {
+  startActiveSpan<F extends (span: Span) => unknown>(
+    name: string,
+    fn: F
+  ): ReturnType<F>;
+};
+
+/** Subset of Span of @opentelemetry/api */
+export type Span = {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  recordException(exception: Error | string): void;
+  setStatus(status: {code: number; message?: string}): unknown;
+  end(): void;
+};
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+export type Trace = <T>(
+  name: string,
+  attributes: SpanAttributes,
+  fn: () => Promise<T>
+) => Promise<T>;
+
+const spanStatusError = 2; // SpanStatusCode.ERROR
+
+export const untraced: Trace = (_name, _attributes, fn) => fn();
+
+export function createTrace(tracer: Tracer | undefined): Trace {
+  if (!tracer) return untraced;
+
+  return (name, attributes, fn) =>
+    tracer.startActiveSpan(name, async span => {
+      for (const [key, value] of Object.entries(attributes)) {
+        span.setAttribute(key, value);
+      }
+      try {
+        return await fn();
+      } catch (e) {
+        span.recordException(e instanceof Error ? e : String(e));
+        span.setStatus({code: spanStatusError, message: String(e)});
+        throw e;
+      } finally {
+        span.end();
+      }
+    });
+}
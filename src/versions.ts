@@ -0,0 +1,118 @@
+import {FieldValue, Timestamp} from '@google-cloud/firestore';
+import type {
+  DocumentReference,
+  DocumentSnapshot,
+  Firestore,
+  Query,
+} from '@google-cloud/firestore';
+import chunk from 'lodash.chunk';
+import type {InvalidationTargets} from './invalidation-log';
+
+export type InvalidationMode = 'delete' | 'version';
+
+/** generation of each typename and entity id observed when the entry is written */
+export type Generations = Record<string, number>;
+
+export type VersionStore = {
+  refs(keys: string[]): DocumentReference[];
+  read(keys: string[]): Promise<Generations>;
+  /** Resolves the number of committed batches */
+  invalidate(keys: string[], incrementGeneration: boolean): Promise<number>;
+  isStale(generations: Generations): Promise<boolean>;
+  expiredQuery(): Query;
+};
+
+// prefixes keep kinds of targets apart and avoid reserved ids like __foo__
+const keyPrefixes: Record<keyof InvalidationTargets, string> = {
+  typenames: 'typename',
+  entityIds: 'entity',
+  tags: 'tag',
+  operationNames: 'operation',
+  coordinates: 'coordinate',
+  partitions: 'partition',
+};
+
+export function versionKeys(
+  targets: Partial<Record<keyof InvalidationTargets, Iterable<string>>>
+): string[] {
+  const keys: string[] = [];
+  for (const [field, prefix] of Object.entries(keyPrefixes)) {
+    const values = targets[field as keyof InvalidationTargets] ?? [];
+    for (const value of values) {
+      keys.push(`${prefix}:${encodeURIComponent(value)}`);
+    }
+  }
+  return keys;
+}
+
+export function createVersionStore(
+  db: Firestore,
+  collectionPath: string,
+  retention: number // time in ms to keep timestamps of documents without generations
+): VersionStore {
+  const collection = db.collection(collectionPath);
+
+  function refs(keys: string[]): DocumentReference[] {
+    return keys.map(key => collection.doc(key));
+  }
+
+  async function read(keys: string[]): Promise<Generations> {
+    if (keys.length === 0) return {};
+
+    const snapshots = await db.getAll(...refs(keys));
+    const generations: Generations = {};
+    for (const snapshot of snapshots) {
+      generations[snapshot.id] = snapshot.get('generation') ?? 0;
+    }
+    return generations;
+  }
+
+  return {
+    refs,
+    read,
+
+    async invalidate(keys, incrementGeneration) {
+      const invalidatedAt = Timestamp.now();
+      const data = {
+        invalidatedAt,
+        // generations are kept forever, timestamps only while computations may write
+        ...(incrementGeneration
+          ? {generation: FieldValue.increment(1), expireAt: null}
+          : {expireAt: new Date(invalidatedAt.toMillis() + retention)}),
+      };
+      const batches = chunk(keys, 500);
+      await Promise.all(
+        batches.map(keys => {
+          const batch = db.batch();
+          refs(keys).forEach(ref => batch.set(ref, data, {merge: true}));
+          return batch.commit();
+        })
+      );
+      return batches.length;
+    },
+
+    async isStale(generations) {
+      const current = await read(Object.keys(generations));
+      return Object.keys(generations).some(
+        key => current[key] !== generations[key]
+      );
+    },
+
+    expiredQuery() {
+      return collection
+        .where('expireAt', '<', new Date())
+        .orderBy('expireAt', 'asc');
+    },
+  };
+}
+
+/** Whether any of typenames or entities is invalidated at or after the time */
+export function invalidatedSince(
+  snapshots: DocumentSnapshot[],
+  time: Date
+): boolean {
+  return snapshots.some(snapshot => {
+    const invalidatedAt: Timestamp | undefined = snapshot.get('invalidatedAt');
+    return invalidatedAt && invalidatedAt.toMillis() >= time.getTime();
+  });
+}
@@ -0,0 +1,82 @@
+import type {
+  BulkWriter,
+  DocumentReference,
+  Firestore,
+} from '@google-cloud/firestore';
+
+export type WriteBehindOptions = {
+  /**
+   * Time in ms to buffer writes before sending them
+   * @defaultValue 10
+   */
+  delayMs?: number;
+
+  /**
+   * Maximum attempts for each write including retries
+   * @defaultValue 10
+   */
+  maxAttempts?: number;
+};
+
+export type WriteBehind = {
+  /** Buffers the write, resolves when it or a later write to the same document is done */
+  enqueue<T>(ref: DocumentReference<T>, data: T): Promise<void>;
+  flush(): Promise<void>;
+};
+
+type Pending = {
+  write: (writer: BulkWriter) => Promise<unknown>;
+  callbacks: {resolve: () => void; reject: (e: unknown) => void}[];
+};
+
+export function createWriteBehind(
+  db: Firestore,
+  options: WriteBehindOptions
+): WriteBehind {
+  const delayMs = options.delayMs ?? 10;
+  const maxAttempts = options.maxAttempts ?? 10;
+
+  let buffer = new Map<string, Pending>();
+  let timer: NodeJS.Timeout | undefined;
+
+  async function flush() {
+    if (timer) clearTimeout(timer);
+    timer = undefined;
+
+    const pendings = Array.from(buffer.values());
+    buffer = new Map();
+    if (pendings.length === 0) return;
+
+    const writer = db.bulkWriter();
+    writer.onWriteError(error => error.failedAttempts < maxAttempts);
+
+    const done = pendings.map(({write, callbacks}) =>
+      write(writer).then(
+        () => callbacks.forEach(({resolve}) => resolve()),
+        e => callbacks.forEach(({reject}) => reject(e))
+      )
+    );
+    await writer.close();
+    await Promise.all(done);
+  }
+
+  return {
+    enqueue(ref, data) {
+      return new Promise((resolve, reject) => {
+        // drop the previous write to the same document
+        const callbacks = buffer.get(ref.path)?.callbacks ?? [];
+        callbacks.push({resolve, reject});
+        buffer.set(ref.path, {
+          write: writer => writer.set(ref, data),
+          callbacks,
+        });
+
+        if (!timer) {
+          timer = setTimeout(() => flush(), delayMs);
+        }
+      });
+    },
+
+    flush,
+  };
+}
@@ -0,0 +1,235 @@
+import type {IncomingMessage, ServerResponse} from 'http';
+import {Readable} from 'stream';
+import {authorizeBearer, createAdminHandler, FetchRequest} from '../src/admin';
+import type {CacheFirestore} from '../src/cache';
+import {createDeletionStatsRecorder} from '../src/stats';
+
+function statsOf(reason: 'typename' | 'tag', deleted: number) {
+  const stats = createDeletionStatsRecorder();
+  stats.add(reason, {deleted, batches: 1});
+  return stats.result();
+}
+
+function fakeCache() {
+  return {
+    invalidate: jest.fn(async () => statsOf('typename', 2)),
+    invalidateTags: jest.fn(async () => statsOf('tag', 1)),
+    deleteExpiredCacheEntry: jest.fn(async () => ({
+      ...createDeletionStatsRecorder().result(),
+      completed: true,
+    })),
+    pendingWrites: jest.fn(() => 3),
+    circuitState: jest.fn(() => undefined),
+  };
+}
+
+function fetchRequest(
+  method: string,
+  path: string,
+  body?: unknown,
+  headers: Record<string, string> = {
+    authorization: 'Bearer secret',
+    'content-type': 'application/json',
+  }
+): FetchRequest {
+  return {
+    method,
+    url: `http://localhost${path}`,
+    headers: {get: name => headers[name] ?? null},
+    text: async () => (body === undefined ? '' : JSON.stringify(body)),
+  };
+}
+
+describe('createAdminHandler', () => {
+  let cache: ReturnType<typeof fakeCache>;
+  let handler: ReturnType<typeof createAdminHandler>;
+
+  beforeEach(() => {
+    cache = fakeCache();
+    handler = createAdminHandler(cache as unknown as CacheFirestore, {
+      authorize: authorizeBearer('secret'),
+      basePath: '/admin/',
+    });
+  });
+
+  test('should invalidate entities, typenames and tags', async () => {
+    const response = await handler.fetch(
+      fetchRequest('POST', '/admin/invalidate', {
+        entities: [{typename: 'User', id: 1}],
+        typenames: ['Comment'],
+        tags: ['news'],
+      })
+    );
+
+    expect(response.status).toEqual(200);
+    expect(cache.invalidate).toHaveBeenCalledWith([
+      {typename: 'User', id: 1},
+      {typename: 'Comment'},
+    ]);
+    expect(cache.invalidateTags).toHaveBeenCalledWith(['news']);
+    const body = (await response.json()) as {
+      deleted: Record<string, number>;
+      batches: number;
+    };
+    expect(body.deleted).toEqual(
+      expect.objectContaining({typename: 2, tag: 1})
+    );
+    expect(body.batches).toEqual(2);
+  });
+
+  test('should purge expired entries with cleanup options', async () => {
+    const response = await handler.fetch(
+      fetchRequest('POST', '/admin/purge-expired', {timeBudgetMs: 1000})
+    );
+
+    expect(response.status).toEqual(200);
+    expect(cache.deleteExpiredCacheEntry).toHaveBeenCalledWith({
+      timeBudgetMs: 1000,
+    });
+    expect(await response.json()).toEqual(
+      expect.objectContaining({completed: true})
+    );
+  });
+
+  test('should respond stats', async () => {
+    const response = await handler.fetch(fetchRequest('GET', '/admin/stats'));
+    expect(await response.json()).toEqual({
+      pendingWrites: 3,
+      circuitState: null,
+    });
+  });
+
+  test('should reject requests', async () => {
+    const unauthorized = await handler.fetch(
+      fetchRequest('GET', '/admin/stats', undefined, {})
+    );
+    expect(unauthorized.status).toEqual(401);
+
+    // routes are not told before authorization
+    const unauthorizedRoute = await handler.fetch(
+      fetchRequest('GET', '/admin/none', undefined, {})
+    );
+    expect(unauthorizedRoute.status).toEqual(401);
+
+    const notFound = await handler.fetch(fetchRequest('GET', '/admin/none'));
+    expect(notFound.status).toEqual(404);
+
+    const notAllowed = await handler.fetch(
+      fetchRequest('GET', '/admin/invalidate')
+    );
+    expect(notAllowed.status).toEqual(405);
+
+    const invalid = await handler.fetch(
+      fetchRequest('POST', '/admin/invalidate', {tags: 'news'})
+    );
+    expect(invalid.status).toEqual(400);
+
+    const notJson = await handler.fetch(
+      fetchRequest(
+        'POST',
+        '/admin/invalidate',
+        {tags: ['news']},
+        {
+          authorization: 'Bearer secret',
+          'content-type': 'text/plain',
+        }
+      )
+    );
+    expect(notJson.status).toEqual(415);
+    expect(cache.invalidateTags).not.toHaveBeenCalled();
+  });
+
+  test('should respond 500 on errors of the cache', async () => {
+    const onError = jest.fn();
+    handler = createAdminHandler(cache as unknown as CacheFirestore, {
+      authorize: authorizeBearer('secret'),
+      basePath: '/admin/',
+      onError,
+    });
+    const error = new Error('unavailable');
+    cache.invalidateTags.mockRejectedValue(error);
+    const response = await handler.fetch(
+      fetchRequest('POST', '/admin/invalidate', {tags: ['news']})
+    );
+    expect(response.status).toEqual(500);
+    expect(await response.json()).toEqual({error: 'internal error'});
+    expect(onError).toHaveBeenCalledWith(
+      error,
+      expect.objectContaining({path: '/admin/invalidate'})
+    );
+  });
+
+  test('should reject large bodies before reading them', async () => {
+    const request = fetchRequest('POST', '/admin/invalidate', undefined, {
+      authorization: 'Bearer secret',
+      'content-type': 'application/json',
+      'content-length': String(2 * 1024 * 1024),
+    });
+    const text = jest.spyOn(request, 'text');
+    const response = await handler.fetch(request);
+    expect(response.status).toEqual(413);
+    expect(text).not.toHaveBeenCalled();
+
+    // streamed without content-length
+    const chunk = new Uint8Array(512 * 1024);
+    let reads = 0;
+    const cancel = jest.fn(async () => {});
+    const streamed = {
+      ...fetchRequest('POST', '/admin/invalidate'),
+      body: {
+        getReader: () => ({
+          read: async () => ({done: ++reads > 10, value: chunk}),
+          cancel,
+        }),
+      },
+    };
+    expect((await handler.fetch(streamed)).status).toEqual(413);
+    expect(reads).toEqual(3);
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  test('should handle requests of node http', async () => {
+    const stream = new Readable({read() {}});
+    stream.push('{"tags":["a"]}');
+    stream.push(null);
+    const req = Object.assign(stream, {
+      method: 'POST',
+      url: '/admin/invalidate?from=scheduler',
+      headers: {
+        authorization: 'Bearer secret',
+        'content-type': 'application/json; charset=utf-8',
+      },
+    }) as unknown as IncomingMessage;
+    const res = {
+      statusCode: 0,
+      setHeader: jest.fn(),
+      end: jest.fn(),
+    };
+
+    await handler.node(req, res as unknown as ServerResponse);
+
+    expect(res.statusCode).toEqual(200);
+    expect(res.setHeader).toHaveBeenCalledWith(
+      'content-type',
+      'application/json'
+    );
+    expect(cache.invalidateTags).toHaveBeenCalledWith(['a']);
+    expect(JSON.parse(res.end.mock.calls[0][0]).deleted.tag).toEqual(1);
+  });
+
+  test('should reject bodies left empty by body parsers', async () => {
+    // body-parser sets an empty object when the content type does not match
+    const req = Object.assign(new Readable({read() {}}), {
+      method: 'POST',
+      url: '/admin/invalidate',
+      headers: {authorization: 'Bearer secret'},
+      body: {},
+    }) as unknown as IncomingMessage;
+    const res = {statusCode: 0, setHeader: jest.fn(), end: jest.fn()};
+
+    await handler.node(req, res as unknown as ServerResponse);
+
+    expect(res.statusCode).toEqual(415);
+    expect(cache.invalidate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,49 @@
+import {createCircuitBreaker} from '../src/circuit-breaker';
+
+describe('createCircuitBreaker', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should open after consecutive failures', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const breaker = createCircuitBreaker({
+      failureThreshold: 2,
+      cooldownMs: 100,
+    });
+
+    breaker.failure();
+    breaker.success();
+    breaker.failure();
+    expect(breaker.state()).toEqual('closed');
+    breaker.failure();
+    expect(breaker.state()).toEqual('open');
+    expect(breaker.allow()).toBe(false);
+
+    now.mockReturnValue(100);
+    expect(breaker.state()).toEqual('half-open');
+  });
+
+  test('should allow one trial after the cooldown', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const breaker = createCircuitBreaker({
+      failureThreshold: 1,
+      cooldownMs: 100,
+    });
+    breaker.failure();
+
+    now.mockReturnValue(100);
+    expect(breaker.allow()).toBe(true);
+    expect(breaker.allow()).toBe(false);
+
+    // reopen on failure of the trial
+    breaker.failure();
+    expect(breaker.state()).toEqual('open');
+
+    now.mockReturnValue(200);
+    expect(breaker.allow()).toBe(true);
+    breaker.success();
+    expect(breaker.state()).toEqual('closed');
+    expect(breaker.allow()).toBe(true);
+  });
+});
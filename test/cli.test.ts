@@ -0,0 +1,162 @@
+import type {Firestore} from '@google-cloud/firestore';
+import type {CacheFirestore} from '../src/cache';
+import {CliIO, main, parseArgs} from '../src/cli';
+import {createDeletionStatsRecorder} from '../src/stats';
+
+function fakeIO(answer?: string) {
+  const cache = {
+    invalidate: jest.fn(async () => createDeletionStatsRecorder().result()),
+    invalidateTags: jest.fn(async () => createDeletionStatsRecorder().result()),
+    deleteExpiredCacheEntry: jest.fn(async () => ({
+      ...createDeletionStatsRecorder().result(),
+      completed: true,
+    })),
+    peekEntry: jest.fn(async () => ({data: {hello: 'world'}})),
+    countEntries: jest.fn(async ({expired}: {expired?: boolean}) =>
+      expired ? 1 : 3
+    ),
+    purgeCollection: jest.fn(async () => {}),
+    close: jest.fn(async () => true),
+  };
+  const firestore = {terminate: jest.fn(async () => {})};
+  let stdout = '';
+  let stderr = '';
+  const io: CliIO = {
+    stdout: text => {
+      stdout += text;
+    },
+    stderr: text => {
+      stderr += text;
+    },
+    prompt: jest.fn(async () => answer),
+    connect: jest.fn(options => ({
+      firestore: firestore as unknown as Firestore,
+      cache: cache as unknown as CacheFirestore,
+      collectionPath: options.collectionPath,
+    })),
+  };
+  return {io, cache, firestore, stdout: () => stdout, stderr: () => stderr};
+}
+
+describe('parseArgs', () => {
+  test('should parse commands, flags and positionals', () => {
+    expect(
+      parseArgs([
+        'invalidate',
+        '--typename',
+        'User',
+        '--typename=Comment',
+        '--dry-run',
+        'extra',
+      ])
+    ).toEqual({
+      command: 'invalidate',
+      positionals: ['extra'],
+      flags: {typename: ['User', 'Comment'], 'dry-run': ['true']},
+    });
+  });
+});
+
+describe('main', () => {
+  test('should invalidate entities and print JSON', async () => {
+    const {io, cache, firestore, stdout} = fakeIO();
+    const code = await main(
+      ['invalidate', '--typename', 'User', '--id', '1', '--collection', 'c'],
+      io
+    );
+
+    expect(code).toEqual(0);
+    expect(io.connect).toHaveBeenCalledWith(
+      expect.objectContaining({collectionPath: 'c', documentIdStrategy: 'raw'})
+    );
+    expect(cache.invalidate).toHaveBeenCalledWith([
+      {typename: 'User', id: '1'},
+    ]);
+    expect(JSON.parse(stdout())).toEqual(expect.objectContaining({batches: 0}));
+    expect(cache.close).toHaveBeenCalled();
+    expect(firestore.terminate).toHaveBeenCalled();
+  });
+
+  test('should pass cleanup options to purge-expired', async () => {
+    const {io, cache} = fakeIO();
+    const code = await main(
+      [
+        'purge-expired',
+        '--max-documents',
+        '100',
+        '--dry-run',
+        '--cursor',
+        '{"phase":"entries"}',
+      ],
+      io
+    );
+
+    expect(code).toEqual(0);
+    expect(cache.deleteExpiredCacheEntry).toHaveBeenCalledWith(
+      expect.objectContaining({
+        maxDocuments: 100,
+        dryRun: true,
+        cursor: {phase: 'entries'},
+      })
+    );
+  });
+
+  test('should print the cached response', async () => {
+    const {io, cache, stdout} = fakeIO();
+    expect(await main(['get', 'key'], io)).toEqual(0);
+    expect(cache.peekEntry).toHaveBeenCalledWith('key', undefined);
+    expect(JSON.parse(stdout())).toEqual({data: {hello: 'world'}});
+  });
+
+  test('should count entries and expired ones', async () => {
+    const {io, cache, stdout} = fakeIO();
+    expect(await main(['stats', '--typename', 'User'], io)).toEqual(0);
+    expect(cache.countEntries).toHaveBeenCalledWith({
+      typename: 'User',
+      expired: true,
+    });
+    expect(JSON.parse(stdout())).toEqual({
+      collectionPath: 'responseCache',
+      entries: 3,
+      expired: 1,
+    });
+  });
+
+  test('should flush all entries after confirmation', async () => {
+    const confirmed = fakeIO('responseCache');
+    expect(await main(['flush-all'], confirmed.io)).toEqual(0);
+    expect(confirmed.cache.purgeCollection).toHaveBeenCalled();
+
+    const aborted = fakeIO('no');
+    expect(await main(['flush-all'], aborted.io)).toEqual(0);
+    expect(aborted.cache.purgeCollection).not.toHaveBeenCalled();
+    expect(aborted.stderr()).toContain('Aborted');
+
+    const noninteractive = fakeIO(undefined);
+    expect(await main(['flush-all'], noninteractive.io)).toEqual(2);
+    expect(noninteractive.cache.purgeCollection).not.toHaveBeenCalled();
+
+    const yes = fakeIO(undefined);
+    expect(await main(['flush-all', '--yes'], yes.io)).toEqual(0);
+    expect(yes.io.prompt).not.toHaveBeenCalled();
+    expect(yes.cache.purgeCollection).toHaveBeenCalled();
+  });
+
+  test('should print usage on invalid arguments', async () => {
+    const unknown = fakeIO();
+    expect(await main(['unknown'], unknown.io)).toEqual(2);
+    expect(unknown.stderr()).toContain('Usage:');
+    expect(unknown.io.connect).not.toHaveBeenCalled();
+
+    const missing = fakeIO();
+    expect(await main(['invalidate', '--id', '1'], missing.io)).toEqual(2);
+    expect(missing.cache.invalidate).not.toHaveBeenCalled();
+  });
+
+  test('should exit with 1 on errors', async () => {
+    const {io, cache, stderr} = fakeIO();
+    cache.peekEntry.mockRejectedValue(new Error('unavailable'));
+    expect(await main(['get', 'key'], io)).toEqual(1);
+    expect(stderr()).toEqual('unavailable\n');
+  });
+});
@@ -0,0 +1,26 @@
+import {createComputationTracker} from '../src/computation';
+
+describe('createComputationTracker', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should keep the earliest start of concurrent computations', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const computations = createComputationTracker(5000);
+    computations.start('a');
+    now.mockReturnValue(2000);
+    computations.start('a');
+    expect(computations.finish('a')).toEqual(new Date(1000));
+    expect(computations.finish('a')).toEqual(new Date(2000));
+  });
+
+  test('should replace starts of computations never finished', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const computations = createComputationTracker(5000);
+    computations.start('a');
+    now.mockReturnValue(7000);
+    computations.start('a');
+    expect(computations.finish('a')).toEqual(new Date(7000));
+  });
+});
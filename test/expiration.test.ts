@@ -0,0 +1,38 @@
+import {expiresEarly, jitterTtl} from '../src/expiration';
+
+describe('jitterTtl', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should shorten ttl by the ratio', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(jitterTtl(1000, 0.2)).toEqual(900);
+    expect(jitterTtl(1000, 0)).toEqual(1000);
+    expect(jitterTtl(Infinity, 0.2)).toEqual(Infinity);
+  });
+});
+
+describe('expiresEarly', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should expire close to expireAt', () => {
+    const now = Date.now();
+    const expireAt = new Date(now + 1000);
+    jest.spyOn(Math, 'random').mockReturnValue(Math.exp(-1)); // -log(random) = 1
+
+    expect(expiresEarly(expireAt, 500, 1, now)).toBeFalsy();
+    expect(expiresEarly(expireAt, 1000, 1, now)).toBeTruthy();
+    expect(expiresEarly(expireAt, 500, 2, now)).toBeTruthy();
+    expect(expiresEarly(expireAt, 500, 1, now + 500)).toBeTruthy();
+  });
+
+  test('should not expire without beta or compute time', () => {
+    const now = Date.now();
+    const expireAt = new Date(now + 1);
+    expect(expiresEarly(expireAt, 1000, 0, now)).toBeFalsy();
+    expect(expiresEarly(expireAt, 0, 1, now)).toBeFalsy();
+  });
+});
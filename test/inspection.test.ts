@@ -0,0 +1,11 @@
+import type {Query} from '@google-cloud/firestore';
+import {countQuery} from '../src/inspection';
+
+describe('countQuery', () => {
+  test('should count documents by an aggregation query', async () => {
+    const query = {
+      count: () => ({get: async () => ({data: () => ({count: 42})})}),
+    };
+    expect(await countQuery(query as unknown as Query)).toEqual(42);
+  });
+});
@@ -0,0 +1,70 @@
+import {createMemoryCache, MemoryEntry} from '../src/memory';
+
+function entry(payload: string, props: Partial<MemoryEntry> = {}): MemoryEntry {
+  return {payload, expireAt: null, typenames: [], entityIds: [], ...props};
+}
+
+describe('createMemoryCache', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should evict least recently used entries', () => {
+    const memory = createMemoryCache({maxEntries: 2});
+    memory.set('a', entry('"a"'));
+    memory.set('b', entry('"b"'));
+    expect(memory.get('a')).toEqual('"a"'); // a is recently used
+
+    memory.set('c', entry('"c"'));
+    expect(memory.get('a')).toEqual('"a"');
+    expect(memory.get('b')).toBeUndefined();
+    expect(memory.get('c')).toEqual('"c"');
+  });
+
+  test('should limit total bytes', () => {
+    const memory = createMemoryCache({maxBytes: 10});
+    memory.set('a', entry('12345'));
+    memory.set('b', entry('12345'));
+    memory.set('c', entry('12345'));
+    expect(memory.get('a')).toBeUndefined();
+    expect(memory.get('b')).toEqual('12345');
+    expect(memory.get('c')).toEqual('12345');
+
+    memory.set('d', entry('12345678901')); // larger than maxBytes
+    expect(memory.get('d')).toBeUndefined();
+    expect(memory.get('c')).toEqual('12345');
+  });
+
+  test('should expire entries', () => {
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const memory = createMemoryCache({ttl: 1000});
+    memory.set('a', entry('"a"'));
+    memory.set('b', entry('"b"', {expireAt: new Date(now + 500)}));
+
+    spy.mockReturnValue(now + 600);
+    expect(memory.get('a')).toEqual('"a"');
+    expect(memory.get('b')).toBeUndefined(); // entry TTL
+
+    spy.mockReturnValue(now + 1200);
+    expect(memory.get('a')).toBeUndefined(); // memory TTL
+  });
+
+  test('should invalidate by typenames and entity ids', () => {
+    const memory = createMemoryCache({});
+    memory.set('users', entry('[]', {typenames: ['User']}));
+    memory.set(
+      'user1',
+      entry('{}', {typenames: ['User'], entityIds: ['User#1']})
+    );
+    memory.set('comments', entry('[]', {typenames: ['Comment']}));
+
+    memory.invalidate([], ['User#1']);
+    expect(memory.get('user1')).toBeUndefined();
+    expect(memory.get('users')).toEqual('[]');
+
+    memory.invalidate(['User'], []);
+    expect(memory.get('users')).toBeUndefined();
+    expect(memory.get('comments')).toEqual('[]');
+  });
+});
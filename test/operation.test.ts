@@ -0,0 +1,154 @@
+import {createHash} from 'crypto';
+import {buildSchema, parse} from 'graphql';
+import type {ExecutionArgs} from 'graphql';
+import {
+  createOperationRegistry,
+  describeOperation,
+  splitScope,
+} from '../src/operation';
+
+const schema = buildSchema(/* GraphQL */ `
+  type Query {
+    hello: String
+    user(id: ID!): String
+  }
+`);
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function args(contextValue: unknown): ExecutionArgs {
+  return {schema, document: parse('{ hello }'), contextValue};
+}
+
+describe('createOperationRegistry', () => {
+  test('should associate keys with execution args', async () => {
+    const registry = createOperationRegistry();
+    const params = registry.responseCacheParameters({
+      buildResponseCacheKey: async ({sessionId}) => `key:${sessionId}`,
+    });
+
+    const execution = args({user: 'a'});
+    const documentString = params.getDocumentString(execution);
+    const key = await params.buildResponseCacheKey({
+      documentString,
+      variableValues: {},
+      sessionId: 'a',
+    });
+
+    expect(key).toEqual('key:a');
+    expect(registry.get(key)).toEqual({
+      args: execution,
+      documentString,
+      sessionId: 'a',
+    });
+
+    registry.delete(key);
+    expect(registry.get(key)).toBeUndefined();
+  });
+
+  test('should not associate keys built without getDocumentString', async () => {
+    const registry = createOperationRegistry();
+    const params = registry.responseCacheParameters();
+
+    const key = await params.buildResponseCacheKey({
+      documentString: '{ hello }',
+      variableValues: {},
+      sessionId: null,
+    });
+    expect(registry.get(key)).toBeUndefined();
+  });
+
+  test('should prefix keys with the scope', async () => {
+    const registry = createOperationRegistry(
+      args => (args.contextValue as {tenant: string}).tenant
+    );
+    const params = registry.responseCacheParameters({
+      buildResponseCacheKey: async () => 'key',
+    });
+
+    const execution = args({tenant: 'a'});
+    const key = await params.buildResponseCacheKey({
+      documentString: params.getDocumentString(execution),
+      variableValues: {},
+      sessionId: null,
+    });
+
+    expect(splitScope(key)).toEqual(['a', 'key']);
+    expect(registry.get(key)?.args).toBe(execution);
+    expect(splitScope('key')).toBeUndefined();
+  });
+
+  test('should prefix keys with partitions other than the session', async () => {
+    const registry = createOperationRegistry(
+      undefined,
+      (_, {args, sessionId}) =>
+        (args.contextValue as {org?: string}).org ?? sessionId ?? undefined
+    );
+    const params = registry.responseCacheParameters({
+      buildResponseCacheKey: async ({sessionId}) => sessionId ?? 'key',
+    });
+    const build = (contextValue: unknown, sessionId: string | null) =>
+      params.buildResponseCacheKey({
+        documentString: params.getDocumentString(args(contextValue)),
+        variableValues: {},
+        sessionId,
+      });
+
+    const a = await build({org: 'a'}, null);
+    const b = await build({org: 'org/b'}, null);
+    expect(splitScope(a)).toEqual([sha256('a'), 'key']);
+    expect(splitScope(b)).toEqual([sha256('org/b'), 'key']);
+    expect(registry.get(a)?.partition).toEqual('a');
+    expect(registry.get(b)?.partition).toEqual('org/b');
+
+    // the session is already part of the key
+    expect(await build({}, 'a')).toEqual('a');
+    expect(registry.get('a')?.partition).toEqual('a');
+  });
+});
+
+describe('describeOperation', () => {
+  test('should collect root field coordinates', () => {
+    const documentString = /* GraphQL */ `
+      query Dashboard {
+        hello
+        ... on Query {
+          user(id: "1")
+        }
+        ...Fields
+      }
+      fragment Fields on Query {
+        __typename
+        hello
+      }
+    `;
+    const metadata = describeOperation({
+      args: {schema, document: parse(documentString)},
+      documentString,
+    });
+
+    expect(metadata.operationName).toEqual('Dashboard');
+    expect(metadata.documentHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(metadata.coordinates).toEqual(['Query.hello', 'Query.user']);
+  });
+
+  test('should select the operation by name', () => {
+    const documentString = /* GraphQL */ `
+      query A {
+        hello
+      }
+      query B {
+        user(id: "1")
+      }
+    `;
+    const metadata = describeOperation({
+      args: {schema, document: parse(documentString), operationName: 'B'},
+      documentString,
+    });
+
+    expect(metadata.operationName).toEqual('B');
+    expect(metadata.coordinates).toEqual(['Query.user']);
+  });
+});
@@ -0,0 +1,36 @@
+import {createPendingTracker, withTimeout} from '../src/pending';
+
+function defer() {
+  let resolve: () => void = () => {};
+  let reject: (e: unknown) => void = () => {};
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return {promise, resolve, reject};
+}
+
+describe('createPendingTracker', () => {
+  test('should count pending promises', async () => {
+    const pending = createPendingTracker();
+    const a = defer();
+    const b = defer();
+    pending.track(a.promise);
+    pending.track(b.promise).catch(() => {});
+    expect(pending.size()).toEqual(2);
+
+    const settled = pending.settled();
+    a.resolve();
+    b.reject(new Error('failed'));
+    await settled;
+    expect(pending.size()).toEqual(0);
+  });
+});
+
+describe('withTimeout', () => {
+  test('should resolve whether the promise settled in time', async () => {
+    expect(await withTimeout(Promise.resolve(), 100)).toBeTruthy();
+    expect(await withTimeout(defer().promise, 10)).toBeFalsy();
+    expect(await withTimeout(Promise.resolve(), Infinity)).toBeTruthy();
+  });
+});
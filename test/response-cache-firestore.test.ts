@@ -3,8 +3,10 @@
  * https://github.com/n1ru4l/envelop/tree/main/packages/plugins/response-cache-redis
  */
 import {request} from 'http';
+import {PassThrough} from 'stream';
 import {createTestkit} from '@envelop/testing';
 import {makeExecutableSchema} from '@graphql-tools/schema';
+import type {ExecutionArgs} from 'graphql';
 import {
   BuildEntityId,
   CacheEntityRecord,
@@ -16,10 +18,12 @@ import {
   QueryDocumentSnapshot,
 } from '@google-cloud/firestore';
 import {
+  CacheFirestore,
   createFirestoreCache,
   defaultBuildEntityId,
   defaultCollectionPath,
 } from '../src/index';
+import {maxChunkedBytes, maxChunks} from '../src/chunking';
 
 const projectId = 'test';
 
@@ -1062,4 +1066,1233 @@ describe('useResponseCache with Firestore', () => {
       await exists(firestore.collection(collectionPath), {typename: 'User'})
     ).toBeFalsy();
   });
+
+  test('compress payload', async () => {
+    const compressed = createFirestoreCache({
+      firestore,
+      compression: {algorithm: 'brotli', threshold: 0},
+    });
+
+    const spy = jest.fn((_, {id}) => users[id - 1]);
+
+    const schema = makeExecutableSchema({
+      typeDefs,
+      resolvers: {
+        Query: {
+          user: spy,
+        },
+      },
+    });
+
+    const query = /* GraphQL */ `
+      query test($id: ID!) {
+        user(id: $id) {
+          ...UserFragment
+        }
+      }
+      ${userFragment}
+    `;
+
+    // stored without compression
+    const plainInstance = createTestkit(
+      [useResponseCache({session: () => null, cache})],
+      schema
+    );
+    await plainInstance.execute(query, {id: 1});
+    await tick();
+
+    const testInstance = createTestkit(
+      [useResponseCache({session: () => null, cache: compressed})],
+      schema
+    );
+
+    const expected = await testInstance.execute(query, {id: 2});
+    await tick();
+    expect(spy).toHaveBeenCalledTimes(2);
+
+    const [doc] = await find(col, {typename: 'User', id: 2});
+    expect(doc.get('encoding')).toEqual('brotli');
+    expect(Buffer.isBuffer(doc.get('payload'))).toBeTruthy();
+
+    // reuse compressed cache
+    const res = await testInstance.execute(query, {id: 2});
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(res).toEqual(expected);
+
+    // reuse uncompressed cache
+    await testInstance.execute(query, {id: 1});
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+
+  test('split large payload into chunks', async () => {
+    const cache = createFirestoreCache({firestore, chunkSize: 64});
+
+    const spy = jest.fn(() => users);
+
+    const schema = makeExecutableSchema({
+      typeDefs,
+      resolvers: {
+        Query: {
+          users: spy,
+        },
+      },
+    });
+
+    const testInstance = createTestkit(
+      [useResponseCache({session: () => null, cache})],
+      schema
+    );
+
+    const query = /* GraphQL */ `
+      query test {
+        users {
+          ...UserFragment
+        }
+      }
+      ${userFragment}
+    `;
+
+    const expected = await testInstance.execute(query);
+    await tick();
+
+    const [doc] = await find(col, {typename: 'User'});
+    const {count} = doc.get('chunks');
+    expect(count).toBeGreaterThan(1);
+    expect((await doc.ref.collection('chunks').get()).size).toEqual(count);
+
+    // reuse cache
+    expect(await testInstance.execute(query)).toEqual(expected);
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    // treat incomplete chunks as miss
+    await doc.ref.collection('chunks').doc('0').delete();
+    await testInstance.execute(query);
+    expect(spy).toHaveBeenCalledTimes(2);
+    await tick();
+
+    await cache.invalidate([{typename: 'User'}]);
+    expect(await exists(col, {typename: 'User'})).toBeFalsy();
+    expect((await doc.ref.collection('chunks').get()).size).toEqual(0);
+  });
+
+  test('delete chunks left by overwritten entries', async () => {
+    const cache = createFirestoreCache({firestore, chunkSize: 64});
+    const chunks = col.doc('key').collection('chunks');
+    const set = (length: number) =>
+      cache.set('key', {data: {text: 'x'.repeat(length)}}, [], Infinity);
+
+    await set(640);
+    const {count} = (await col.doc('key').get()).get('chunks');
+    expect((await chunks.get()).size).toEqual(count);
+
+    await set(200);
+    const fewer = (await col.doc('key').get()).get('chunks');
+    expect(fewer.count).toBeLessThan(count);
+    expect((await chunks.get()).size).toEqual(fewer.count);
+
+    // left to the TTL policy, not to read the entry on every write
+    await set(0);
+    expect((await col.doc('key').get()).get('chunks')).toBeUndefined();
+    expect(await cache.get('key')).toEqual({data: {text: ''}});
+  });
+
+  test('reject payloads exceeding a commit', async () => {
+    const cache = createFirestoreCache({firestore});
+    const data = {data: {text: 'x'.repeat(maxChunkedBytes)}};
+    await expect(cache.set('key', data, [], Infinity)).rejects.toThrow(
+      'written in a commit'
+    );
+    expect((await col.doc('key').get()).exists).toBe(false);
+
+    const chunked = createFirestoreCache({firestore, chunkSize: 64});
+    const many = {data: {text: 'x'.repeat(64 * maxChunks)}};
+    await expect(chunked.set('key', many, [], Infinity)).rejects.toThrow(
+      'chunks written in a commit'
+    );
+  });
+
+  test('use in-memory cache in front of firestore', async () => {
+    const cache = createFirestoreCache({firestore, memory: {maxEntries: 10}});
+
+    const spy = jest.fn((_, {id}) => users[id - 1]);
+
+    const schema = makeExecutableSchema({
+      typeDefs,
+      resolvers: {
+        Query: {
+          user: spy,
+        },
+      },
+    });
+
+    const testInstance = createTestkit(
+      [useResponseCache({session: () => null, cache})],
+      schema
+    );
+
+    const query = /* GraphQL */ `
+      query test($id: ID!) {
+        user(id: $id) {
+          ...UserFragment
+        }
+      }
+      ${userFragment}
+    `;
+
+    await testInstance.execute(query, {id: 1});
+    await testInstance.execute(query, {id: 2});
+    await tick();
+    expect(spy).toHaveBeenCalledTimes(2);
+
+    // served from memory without firestore
+    await flushAll();
+    await testInstance.execute(query, {id: 1});
+    await testInstance.execute(query, {id: 2});
+    expect(spy).toHaveBeenCalledTimes(2);
+
+    await cache.invalidate([{typename: 'User', id: 1}]);
+    await testInstance.execute(query, {id: 1});
+    await testInstance.execute(query, {id: 2});
+    expect(spy).toHaveBeenCalledTimes(3);
+  });
+
+  test('propagate invalidation to other instances', async () => {
+    const options = {
+      firestore,
+      memory: {maxEntries: 10},
+      invalidationLog: {},
+    };
+    const cache1 = createFirestoreCache(options);
+    const cache2 = createFirestoreCache(options);
+    const unlisten = cache2.listenInvalidationLog();
+
+    const spy = jest.fn((_, {id}) => users[id - 1]);
+
+    const schema = makeExecutableSchema({
+      typeDefs,
+      resolvers: {
+        Query: {
+          user: spy,
+        },
+      },
+    });
+
+    const testInstance = createTestkit(
+      [useResponseCache({session: () => null, cache: cache2})],
+      schema
+    );
+
+    const query = /* GraphQL */ `
+      query test {
+        user(id: 1) {
+          ...UserFragment
+        }
+      }
+      ${userFragment}
+    `;
+
+    await testInstance.execute(query);
+    await tick();
+    await testInstance.execute(query); // from memory
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    await cache1.invalidate([{typename: 'User', id: 1}]);
+    await tick(500);
+
+    await testInstance.execute(query);
+    expect(spy).toHaveBeenCalledTimes(2);
+
+    unlisten();
+  });
+
+  test('treat entries written before version mode as miss', async () => {
+    const data = {data: {users: []}};
+    await cache.set('a', data, [{typename: 'User', id: '1'}], Infinity);
+    await tick(10);
+
+    const versioned = createFirestoreCache({
+      firestore,
+      invalidationMode: 'version',
+    });
+    expect(await versioned.get('a')).toBeUndefined();
+
+    await versioned.set('a', data, [{typename: 'User', id: '1'}], Infinity);
+    await tick(10);
+    expect(await versioned.get('a')).toEqual(data);
+  });
+
+  test('invalidate by version counters', async () => {
+    const cache = createFirestoreCache({
+      firestore,
+      invalidationMode: 'version',
+    });
+
+    const usersSpy = jest.fn(() => users);
+    const userSpy = jest.fn((_, {id}) => users[id - 1]);
+
+    const schema = makeExecutableSchema({
+      typeDefs,
+      resolvers: {
+        Query: {
+          users: usersSpy,
+          user: userSpy,
+        },
+      },
+    });
+
+    const testInstance = createTestkit(
+      [useResponseCache({session: () => null, cache})],
+      schema
+    );
+
+    const usersQuery = /* GraphQL */ `
+      query test {
+        users {
+          ...UserFragment
+        }
+      }
+      ${userFragment}
+    `;
+
+    const user3Query = /* GraphQL */ `
+      query test {
+        user(id: 3) {
+          ...UserFragment
+        }
+      }
+      ${userFragment}
+    `;
+
+    await testInstance.execute(usersQuery);
+    await testInstance.execute(user3Query);
+    await tick();
+    await testInstance.execute(usersQuery);
+    await testInstance.execute(user3Query);
+    expect(usersSpy).toHaveBeenCalledTimes(1);
+    expect(userSpy).toHaveBeenCalledTimes(1);
+
+    await cache.invalidate([{typename: 'Comment', id: 1}]);
+
+    // entries are not deleted
+    expect(await find(col, {typename: 'User'})).toHaveLength(2);
+
+    await testInstance.execute(usersQuery);
+    await testInstance.execute(user3Query);
+    expect(usersSpy).toHaveBeenCalledTimes(2); // contains Comment#1
+    expect(userSpy).toHaveBeenCalledTimes(1);
+    await tick();
+
+    await testInstance.execute(usersQuery); // rewritten with new generations
+    expect(usersSpy).toHaveBeenCalledTimes(2);
+
+    await cache.invalidate([{typename: 'User'}]);
+
+    await testInstance.execute(usersQuery);
+    await testInstance.execute(user3Query);
+    expect(usersSpy).toHaveBeenCalledTimes(3);
+    expect(userSpy).toHaveBeenCalledTimes(2);
+  });
+
+  test('ignore stale writes racing with invalidation', async () => {
+    const id = 'race';
+    const data = {data: {user: {id: '1'}}};
+    const entities = [{typename: 'User', id: '1'}];
+
+    async function race(cache: CacheFirestore) {
+      expect(await cache.get(id)).toBeUndefined(); // start computation
+      await cache.invalidate(entities); // mutation during computation
+      await cache.set(id, data, entities, Infinity);
+      return cache.get(id);
+    }
+
+    const unprotected = createFirestoreCache({firestore});
+    expect(await race(unprotected)).toEqual(data); // stale
+
+    await unprotected.invalidate(entities);
+
+    const cache = createFirestoreCache({firestore, staleWriteProtection: true});
+    expect(await race(cache)).toBeUndefined();
+    expect(await exists(col, {typename: 'User', id: 1})).toBeFalsy();
+
+    // computed after invalidation
+    await tick(10);
+    expect(await cache.get(id)).toBeUndefined();
+    await cache.set(id, data, entities, Infinity);
+    expect(await cache.get(id)).toEqual(data);
+  });
+
+  test('delete invalidation timestamps after computations', async () => {
+    const cache = createFirestoreCache({
+      firestore,
+      staleWriteProtection: true,
+      lease: {ttl: 10},
+    });
+    const versions = firestore.collection(`${defaultCollectionPath}Versions`);
+
+    await cache.invalidate([
+      {typename: 'User'},
+      {typename: 'Comment', id: '1'},
+    ]);
+    expect((await versions.get()).size).toEqual(2);
+
+    await tick(20);
+    const cleaned = await cache.deleteExpiredCacheEntry();
+    expect(cleaned.completed).toBe(true);
+    expect((await versions.get()).size).toEqual(0);
+  });
+
+  test('serve stale response within grace period', async () => {
+    const onStale = jest.fn();
+    const cache = createFirestoreCache({
+      firestore,
+      staleWhileRevalidate: {graceMs: 1000, onStale},
+    });
+
+    const spy = jest.fn(() => users);
+
+    const schema = makeExecutableSchema({
+      typeDefs,
+      resolvers: {
+        Query: {
+          users: spy,
+        },
+      },
+    });
+
+    const testInstance = createTestkit(
+      [useResponseCache({session: () => null, cache, ttl: 500})],
+      schema
+    );
+
+    const query = /* GraphQL */ `
+      query test {
+        users {
+          ...UserFragment
+        }
+      }
+      ${userFragment}
+    `;
+
+    await testInstance.execute(query); // query & cache
+    await tick(700); // wait to expire
+
+    await testInstance.execute(query); // stale
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(onStale).toHaveBeenCalledTimes(1);
+    expect(onStale.mock.calls[0][0].id).toEqual(expect.any(String));
+
+    await cache.deleteExpiredCacheEntry();
+    expect(await exists(col, {typename: 'User'})).toBeTruthy();
+
+    await tick(1000); // wait grace period
+
+    await testInstance.execute(query); // query & recreate
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(onStale).toHaveBeenCalledTimes(1);
+  });
+
+  test('recompute by the lease holder only', async () => {
+    const options = {firestore, lease: {waitMs: 300, pollIntervalMs: 50}};
+    const holder = createFirestoreCache(options);
+    const other = createFirestoreCache(options);
+    const leases = firestore.collection(`${defaultCollectionPath}Leases`);
+
+    const id = 'leased';
+    const data = {data: {users: []}};
+
+    expect(await holder.get(id)).toBeUndefined(); // take the lease
+    expect(await other.get(id)).toBeUndefined(); // wait and give up
+    await other.set(id, data, [{typename: 'User'}], Infinity);
+    expect((await col.doc(id).get()).exists).toBeFalsy(); // not written
+
+    // wait for the holder
+    const waiting = other.get(id);
+    await tick(100);
+    await holder.set(id, data, [{typename: 'User'}], Infinity);
+    expect(await waiting).toEqual(data);
+    expect((await leases.get()).size).toEqual(0); // released
+  });
+
+  test('wait for the lease holder of the same instance', async () => {
+    const cache = createFirestoreCache({
+      firestore,
+      lease: {waitMs: 1000, pollIntervalMs: 50},
+    });
+    const leases = firestore.collection(`${defaultCollectionPath}Leases`);
+
+    const id = 'leased';
+    const data = {data: {users: []}};
+
+    const [holder, waiting] = [cache.get(id), cache.get(id)];
+    expect(await holder).toBeUndefined(); // take the lease
+    await tick(100);
+    await cache.set(id, data, [{typename: 'User'}], Infinity);
+    expect((await col.doc(id).get()).exists).toBeTruthy(); // written by the holder
+    expect(await waiting).toEqual(data);
+    expect((await leases.get()).size).toEqual(0); // released
+  });
+
+  test('buffer writes and deduplicate them', async () => {
+    const cache = createFirestoreCache({
+      firestore,
+      writeBehind: {delayMs: 60 * 1000},
+    });
+
+    const id = 'buffered';
+    const entities = [{typename: 'User'}];
+    const written = Promise.all([
+      cache.set(id, {data: {users: []}}, entities, Infinity),
+      cache.set(id, {data: {users: [{id: '1'}]}}, entities, Infinity),
+    ]);
+    await tick();
+    expect((await col.doc(id).get()).exists).toBeFalsy(); // buffered
+
+    await cache.flush();
+    await written;
+    expect(JSON.parse((await col.doc(id).get()).get('payload'))).toEqual({
+      data: {users: [{id: '1'}]},
+    });
+  });
+
+  test('wait for pending writes', async () => {
+    const cache = createFirestoreCache({firestore});
+
+    const spy = jest.fn(() => users);
+
+    const schema = makeExecutableSchema({
+      typeDefs,
+      resolvers: {
+        Query: {
+          users: spy,
+        },
+      },
+    });
+
+    const testInstance = createTestkit(
+      [useResponseCache({session: () => null, cache})],
+      schema
+    );
+
+    const query = /* GraphQL */ `
+      query test {
+        users {
+          ...UserFragment
+        }
+      }
+      ${userFragment}
+    `;
+
+    await testInstance.execute(query);
+    expect(cache.pendingWrites()).toEqual(1);
+
+    expect(await cache.flush(5000)).toBeTruthy();
+    expect(cache.pendingWrites()).toEqual(0);
+    expect(await exists(col, {typename: 'User'})).toBeTruthy();
+
+    await testInstance.execute(query); // reuse cache without tick
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    expect(await cache.close()).toBeTruthy();
+  });
+
+  test('hash keys to document ids', async () => {
+    const cache = createFirestoreCache({
+      firestore,
+      documentIdStrategy: 'sha256',
+    });
+
+    const key = `a/b/__c__/${'x'.repeat(2000)}`;
+    const data = {data: {users: []}};
+    await cache.set(key, data, [{typename: 'User'}], Infinity);
+    expect(await cache.get(key)).toEqual(data);
+
+    const [doc] = await find(col, {typename: 'User'});
+    expect(doc.id).toMatch(/^[0-9a-f]{64}$/);
+    expect(doc.get('key')).toEqual(key);
+
+    // collision
+    const collided = createFirestoreCache({
+      firestore,
+      documentIdStrategy: () => doc.id,
+    });
+    expect(await collided.get('other')).toBeUndefined();
+    expect(await collided.get(key)).toEqual(data);
+  });
+
+  test('invalidate entities via index collection', async () => {
+    const indexed = createFirestoreCache({
+      firestore,
+      entityIndex: 'collection',
+    });
+    const index = firestore.collection(`${defaultCollectionPath}Index`);
+
+    const entities = [
+      {typename: 'User', id: '1'},
+      {typename: 'User', id: '2'},
+    ];
+    const data = {data: {users: []}};
+
+    await cache.set('legacy', data, entities, Infinity); // array mode
+    await indexed.set('indexed', data, entities, Infinity);
+
+    expect((await col.doc('indexed').get()).get('entityIds')).toEqual([]);
+    expect((await index.where('entryId', '==', 'indexed').get()).size).toEqual(
+      2
+    );
+
+    await indexed.invalidate([{typename: 'User', id: '2'}]);
+    expect(await indexed.get('indexed')).toBeUndefined();
+    expect(await indexed.get('legacy')).toBeUndefined();
+    expect((await index.where('entityId', '==', 'User#2').get()).size).toEqual(
+      0
+    );
+  });
+
+  test('delete index documents of entities removed from rewritten entries', async () => {
+    const indexed = createFirestoreCache({
+      firestore,
+      entityIndex: 'collection',
+    });
+    const index = firestore.collection(`${defaultCollectionPath}Index`);
+    const data = {data: {users: []}};
+
+    await indexed.set(
+      'indexed',
+      data,
+      [
+        {typename: 'User', id: '1'},
+        {typename: 'User', id: '2'},
+      ],
+      Infinity
+    );
+    await indexed.set('indexed', data, [{typename: 'User', id: '1'}], Infinity);
+    expect((await index.where('entryId', '==', 'indexed').get()).size).toEqual(
+      1
+    );
+
+    await indexed.invalidate([{typename: 'User', id: '2'}]);
+    expect(await indexed.get('indexed')).toEqual(data);
+  });
+
+  test('invalidate by tags', async () => {
+    const spy = jest.fn(() => users);
+    const tagged = createFirestoreCache({
+      firestore,
+      extractTags: ({context}) => [
+        `tenant:${(context as {tenant: string}).tenant}`,
+      ],
+    });
+
+    const schema = makeExecutableSchema({
+      typeDefs,
+      resolvers: {
+        Query: {
+          users: spy,
+        },
+      },
+    });
+
+    const testInstance = createTestkit(
+      [
+        useResponseCache({
+          cache: tagged,
+          session(ctx: {tenant: string}) {
+            return ctx.tenant;
+          },
+          ...tagged.responseCacheParameters(),
+        }),
+      ],
+      schema
+    );
+
+    const query = /* GraphQL */ `
+      query test {
+        users {
+          ...UserFragment
+        }
+      }
+      ${userFragment}
+    `;
+
+    await testInstance.execute(query, {}, {tenant: 'a'});
+    await testInstance.execute(query, {}, {tenant: 'b'});
+    await tick();
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(
+      (await col.where('tags', 'array-contains', 'tenant:a').get()).size
+    ).toEqual(1);
+
+    await tagged.invalidateTags(['tenant:a']);
+    expect(
+      (await col.where('tags', 'array-contains', 'tenant:a').get()).size
+    ).toEqual(0);
+
+    await testInstance.execute(query, {}, {tenant: 'a'});
+    await testInstance.execute(query, {}, {tenant: 'b'});
+    expect(spy).toHaveBeenCalledTimes(3);
+  });
+
+  test('invalidate by operation name and coordinate', async () => {
+    const usersSpy = jest.fn(() => users);
+    const userSpy = jest.fn((_, {id}) => users[id - 1]);
+    const described = createFirestoreCache({
+      firestore,
+      operationMetadata: true,
+    });
+
+    const schema = makeExecutableSchema({
+      typeDefs,
+      resolvers: {
+        Query: {
+          users: usersSpy,
+          user: userSpy,
+        },
+      },
+    });
+
+    const testInstance = createTestkit(
+      [
+        useResponseCache({
+          cache: described,
+          session: () => null,
+          ...described.responseCacheParameters(),
+        }),
+      ],
+      schema
+    );
+
+    const usersQuery = /* GraphQL */ `
+      query Users {
+        users {
+          ...UserFragment
+        }
+      }
+      ${userFragment}
+    `;
+    const userQuery = /* GraphQL */ `
+      query {
+        user(id: 1) {
+          ...UserFragment
+        }
+      }
+      ${userFragment}
+    `;
+
+    await testInstance.execute(usersQuery);
+    await testInstance.execute(userQuery);
+    await tick();
+
+    const entry = (await col.where('operationName', '==', 'Users').get())
+      .docs[0];
+    expect(entry.get('coordinates')).toEqual(['Query.users']);
+    expect(entry.get('documentHash')).toMatch(/^[0-9a-f]{64}$/);
+
+    await described.invalidateOperations(['Users']);
+    await testInstance.execute(usersQuery);
+    await testInstance.execute(userQuery);
+    expect(usersSpy).toHaveBeenCalledTimes(2);
+    expect(userSpy).toHaveBeenCalledTimes(1);
+
+    await described.invalidateCoordinates(['Query.user']);
+    await testInstance.execute(userQuery);
+    expect(userSpy).toHaveBeenCalledTimes(2);
+  });
+
+  test('invalidate entries of a session', async () => {
+    const spy = jest.fn(() => users);
+    const partitioned = createFirestoreCache({
+      firestore,
+      partition: {subcollections: true},
+    });
+    const partition = (sessionId: string) =>
+      firestore.collection(
+        `${defaultCollectionPath}Partitions/${sessionId}/${defaultCollectionPath}`
+      );
+
+    const schema = makeExecutableSchema({
+      typeDefs,
+      resolvers: {
+        Query: {
+          users: spy,
+        },
+      },
+    });
+
+    const testInstance = createTestkit(
+      [
+        useResponseCache({
+          cache: partitioned,
+          session(ctx: {sessionId: string}) {
+            return ctx.sessionId;
+          },
+          ...partitioned.responseCacheParameters(),
+        }),
+      ],
+      schema
+    );
+
+    const query = /* GraphQL */ `
+      query test {
+        users {
+          ...UserFragment
+        }
+      }
+      ${userFragment}
+    `;
+
+    await testInstance.execute(query, {}, {sessionId: 'a'});
+    await testInstance.execute(query, {}, {sessionId: 'b'});
+    await tick();
+    expect((await partition('a').get()).size).toEqual(1);
+    expect((await partition('b').get()).docs[0].get('partition')).toEqual('b');
+
+    await partitioned.invalidateSession('a');
+    expect((await partition('a').get()).size).toEqual(0);
+    expect((await partition('b').get()).size).toEqual(1);
+
+    await testInstance.execute(query, {}, {sessionId: 'a'});
+    await testInstance.execute(query, {}, {sessionId: 'b'});
+    expect(spy).toHaveBeenCalledTimes(3);
+
+    // through collection group queries
+    await partitioned.invalidate([{typename: 'User', id: '1'}]);
+    expect((await partition('b').get()).size).toEqual(0);
+  });
+
+  test('separate entries of partitions resolved from the context', async () => {
+    const spy = jest.fn(() => users);
+    const partitioned = createFirestoreCache({
+      firestore,
+      partition: {
+        key: ({context}) => (context as {orgId: string}).orgId,
+        subcollections: true,
+      },
+    });
+    const partition = (orgId: string) =>
+      firestore.collection(
+        `${defaultCollectionPath}Partitions/${orgId}/${defaultCollectionPath}`
+      );
+
+    const schema = makeExecutableSchema({
+      typeDefs,
+      resolvers: {
+        Query: {
+          users: spy,
+        },
+      },
+    });
+
+    const testInstance = createTestkit(
+      [
+        useResponseCache({
+          cache: partitioned,
+          session: () => null,
+          ...partitioned.responseCacheParameters(),
+        }),
+      ],
+      schema
+    );
+
+    const query = /* GraphQL */ `
+      query test {
+        users {
+          ...UserFragment
+        }
+      }
+      ${userFragment}
+    `;
+
+    // in flight together, the same query without sessions
+    await Promise.all([
+      testInstance.execute(query, {}, {orgId: 'a'}),
+      testInstance.execute(query, {}, {orgId: 'org/b'}),
+    ]);
+    await tick();
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect((await partition('a').get()).docs[0].get('partition')).toEqual('a');
+    expect(
+      (await partition(encodeURIComponent('org/b')).get()).docs[0].get(
+        'partition'
+      )
+    ).toEqual('org/b');
+
+    await partitioned.invalidateSession('a');
+    await testInstance.execute(query, {}, {orgId: 'a'});
+    await testInstance.execute(query, {}, {orgId: 'org/b'});
+    expect(spy).toHaveBeenCalledTimes(3);
+  });
+
+  test('route entries to collections of tenants', async () => {
+    const spy = jest.fn(() => users);
+    const routed = createFirestoreCache({
+      firestore,
+      collectionPath: ctx =>
+        `tenants/${(ctx as {tenant: string}).tenant}/${defaultCollectionPath}`,
+    });
+    const tenant = (name: string) =>
+      firestore.collection(`tenants/${name}/${defaultCollectionPath}`);
+
+    const schema = makeExecutableSchema({
+      typeDefs,
+      resolvers: {
+        Query: {
+          users: spy,
+        },
+      },
+    });
+
+    const testInstance = createTestkit(
+      [
+        useResponseCache({
+          cache: routed,
+          session: () => null,
+          ...routed.responseCacheParameters(),
+        }),
+      ],
+      schema
+    );
+
+    const query = /* GraphQL */ `
+      query test {
+        users {
+          ...UserFragment
+        }
+      }
+      ${userFragment}
+    `;
+
+    await testInstance.execute(query, {}, {tenant: 'a'});
+    await testInstance.execute(query, {}, {tenant: 'b'});
+    await tick();
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect((await tenant('a').get()).size).toEqual(1);
+    expect((await tenant('b').get()).size).toEqual(1);
+
+    await routed.purgeCollection({tenant: 'a'});
+    expect((await tenant('a').get()).size).toEqual(0);
+    expect((await tenant('b').get()).size).toEqual(1);
+
+    // through collection group queries
+    await routed.invalidate([{typename: 'User', id: '1'}]);
+    expect((await tenant('b').get()).size).toEqual(0);
+  });
+
+  test('lease entries of tenants separately', async () => {
+    const waitMs = 1000;
+    const routed = createFirestoreCache({
+      firestore,
+      collectionPath: ctx =>
+        `tenants/${(ctx as {tenant: string}).tenant}/${defaultCollectionPath}`,
+      lease: {waitMs, pollIntervalMs: 50},
+    });
+    // the same query and variables of both tenants
+    const params = routed.responseCacheParameters({
+      getDocumentString: () => '{ users { id } }',
+      buildResponseCacheKey: async () => 'same',
+    });
+    const keyOf = (tenant: string) => {
+      params.getDocumentString({
+        contextValue: {tenant},
+      } as unknown as ExecutionArgs);
+      return params.buildResponseCacheKey({
+        documentString: '{ users { id } }',
+        variableValues: {},
+        sessionId: null,
+      });
+    };
+    const data = {data: {users: []}};
+
+    const a = await keyOf('a');
+    expect(await routed.get(a)).toBeUndefined(); // take the lease of a
+
+    const b = await keyOf('b');
+    const startedAt = Date.now();
+    expect(await routed.get(b)).toBeUndefined(); // take the lease of b
+    expect(Date.now() - startedAt).toBeLessThan(waitMs);
+
+    await routed.set(b, data, [{typename: 'User'}], Infinity);
+    const entries = firestore.collection(`tenants/b/${defaultCollectionPath}`);
+    expect((await entries.doc('same').get()).exists).toBe(true);
+  });
+
+  test('reject resolved collection paths outside the collection group', async () => {
+    const routed = createFirestoreCache({
+      firestore,
+      collectionPath: ctx =>
+        `tenants/${(ctx as {tenant: string}).tenant}/cache`,
+    });
+    const params = routed.responseCacheParameters();
+    params.getDocumentString({
+      contextValue: {tenant: 'a'},
+    } as unknown as ExecutionArgs);
+    await expect(
+      params.buildResponseCacheKey({
+        documentString: '{ users { id } }',
+        variableValues: {},
+        sessionId: null,
+      })
+    ).rejects.toThrow(`must end with "${defaultCollectionPath}"`);
+    await expect(routed.purgeCollection({tenant: 'a'})).rejects.toThrow(
+      `must end with "${defaultCollectionPath}"`
+    );
+
+    // keys of other collections, like imported ones, are not cached
+    const key = 'tenants/a/cache\0key';
+    await routed.set(key, {data: {}}, [{typename: 'User'}], Infinity);
+    expect(await routed.get(key)).toBeUndefined();
+    const entries = firestore.collection('tenants/a/cache');
+    expect((await entries.doc('key').get()).exists).toBe(false);
+  });
+
+  test('call hooks', async () => {
+    const hooks = {
+      onHit: jest.fn(),
+      onMiss: jest.fn(),
+      onExpired: jest.fn(),
+      onSet: jest.fn(),
+      onInvalidate: jest.fn(),
+      onError: jest.fn(),
+    };
+    const observed = createFirestoreCache({firestore, hooks});
+    const entities = [{typename: 'User', id: '1'}];
+    const data = {data: {users: []}};
+
+    expect(await observed.get('a')).toBeUndefined();
+    expect(hooks.onMiss).toHaveBeenCalledWith({id: 'a'});
+
+    await observed.set('a', data, entities, Infinity);
+    expect(hooks.onSet).toHaveBeenCalledWith({
+      id: 'a',
+      bytes: JSON.stringify(data).length,
+      entities: 1,
+      ttl: Infinity,
+    });
+
+    await observed.get('a');
+    expect(hooks.onHit).toHaveBeenCalledWith({
+      id: 'a',
+      source: 'firestore',
+      stale: false,
+    });
+
+    await observed.set('b', data, entities, 1);
+    await tick(10);
+    expect(await observed.get('b')).toBeUndefined();
+    expect(hooks.onExpired).toHaveBeenCalledWith({
+      id: 'b',
+      expireAt: expect.any(Date),
+    });
+    await observed.flush(); // the expired entry is deleted
+
+    await observed.invalidate(entities);
+    expect(hooks.onInvalidate).toHaveBeenCalledWith(
+      expect.objectContaining({deleted: 1})
+    );
+    expect(hooks.onError).not.toHaveBeenCalled();
+  });
+
+  test('treat slow reads as miss and bypass firestore', async () => {
+    const onError = jest.fn();
+    const guarded = createFirestoreCache({
+      firestore,
+      hooks: {onError},
+      failOpen: {
+        readTimeoutMs: 0,
+        circuitBreaker: {failureThreshold: 1, cooldownMs: 60 * 1000},
+      },
+    });
+    const data = {data: {users: []}};
+
+    await cache.set('a', data, [], Infinity);
+    expect(await guarded.get('a')).toBeUndefined();
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][1]).toEqual({operation: 'get', id: 'a'});
+
+    // the circuit is open
+    expect(await guarded.get('a')).toBeUndefined();
+    await guarded.set('b', data, [], Infinity);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect((await col.doc('b').get()).exists).toBe(false);
+  });
+
+  test('return deletion statistics', async () => {
+    const data = {data: {users: []}};
+    await cache.set('a', data, [{typename: 'User', id: '1'}], Infinity);
+    await cache.set('b', data, [{typename: 'Comment', id: '1'}], Infinity);
+    await cache.set('c', data, [{typename: 'Comment', id: '2'}], 1);
+    await tick(10);
+
+    const invalidated = await cache.invalidate([
+      {typename: 'User', id: '1'},
+      {typename: 'Comment'},
+    ]);
+    expect(invalidated.deleted).toEqual(
+      expect.objectContaining({typename: 2, entity: 1, expired: 0})
+    );
+    expect(invalidated.batches).toEqual(2);
+    expect(invalidated.elapsedMs).toBeGreaterThanOrEqual(0);
+
+    await cache.set('d', data, [], 1);
+    await tick(10);
+    const cleaned = await cache.deleteExpiredCacheEntry();
+    expect(cleaned.deleted.expired).toEqual(1);
+  });
+
+  test('inspect entries', async () => {
+    const data = {data: {users: []}};
+    await cache.set('a', data, [{typename: 'User', id: '1'}], 10000);
+    await cache.set('b', data, [{typename: 'User', id: '2'}], Infinity);
+    await cache.set('c', data, [{typename: 'Comment', id: '1'}], 10000);
+    await tick(10);
+
+    const metadata = await cache.getEntryMetadata('a');
+    expect(metadata).toEqual(
+      expect.objectContaining({
+        key: 'a',
+        path: `${defaultCollectionPath}/a`,
+        typenames: ['User'],
+        entityCount: 1,
+        bytes: JSON.stringify(data).length,
+      })
+    );
+    expect(metadata?.ttlMs).toBeGreaterThan(0);
+    expect(metadata?.ttlMs).toBeLessThanOrEqual(10000);
+    expect(metadata?.createdAt).toBeInstanceOf(Date);
+    expect((await cache.getEntryMetadata('b'))?.ttlMs).toBeNull();
+    expect(await cache.getEntryMetadata('none')).toBeUndefined();
+
+    const first = await cache.listEntries({typename: 'User', limit: 1});
+    expect(first.entries.map(e => e.key)).toEqual(['a']);
+    const second = await cache.listEntries({
+      typename: 'User',
+      limit: 1,
+      cursor: first.cursor,
+    });
+    expect(second.entries.map(e => e.key)).toEqual(['b']);
+    const last = await cache.listEntries({
+      typename: 'User',
+      limit: 1,
+      cursor: second.cursor,
+    });
+    expect(last).toEqual({entries: []});
+
+    const entity = await cache.listEntries({
+      entity: {typename: 'Comment', id: '1'},
+    });
+    expect(entity.entries.map(e => e.key)).toEqual(['c']);
+    expect(entity.cursor).toBeUndefined();
+
+    expect(await cache.countEntries()).toEqual(3);
+    expect(await cache.countEntries({typename: 'User'})).toEqual(2);
+    expect(await cache.countEntries({expired: true})).toEqual(0);
+  });
+
+  test('peek entries without deleting expired ones', async () => {
+    const data = {data: {users: []}};
+    await cache.set('a', data, [{typename: 'User', id: '1'}], 1);
+    await tick(10);
+
+    const peeked = await cache.peekEntry('a');
+    expect(peeked?.data).toEqual(data);
+    expect(peeked?.metadata.ttlMs).toEqual(0);
+    expect((await col.doc('a').get()).exists).toBe(true);
+    expect(await cache.peekEntry('none')).toBeUndefined();
+  });
+
+  test('export and import entries', async () => {
+    const data = {data: {users: []}};
+    await cache.set('a', data, [{typename: 'User', id: '1'}], 10000);
+    await cache.set('b', data, [{typename: 'Comment', id: '1'}], Infinity);
+    await tick(10);
+
+    const lines: string[] = [];
+    const stream = new PassThrough();
+    stream.on('data', chunk => lines.push(chunk.toString()));
+    const exported = await cache.exportEntries(stream, {typename: 'User'});
+    stream.end();
+    expect(exported).toEqual({exported: 1, skipped: 0});
+    expect(JSON.parse(lines.join(''))).toEqual(
+      expect.objectContaining({
+        key: 'a',
+        data,
+        typenames: ['User'],
+        entityIds: ['User#1'],
+      })
+    );
+
+    await cache.purgeCollection();
+    const input = new PassThrough();
+    input.end(lines.join(''));
+    const imported = await cache.importEntries(input, {preserveTtl: false});
+    expect(imported).toEqual({imported: 1, skipped: 0, batches: 1});
+    expect(await cache.get('a')).toEqual(data);
+    expect(await cache.get('b')).toBeUndefined();
+
+    await cache.invalidate([{typename: 'User', id: '1'}]);
+    expect(await cache.get('a')).toBeUndefined();
+  });
+
+  test('skip entries invalidated by version counters on export', async () => {
+    const versioned = createFirestoreCache({
+      firestore,
+      invalidationMode: 'version',
+    });
+    const data = {data: {users: []}};
+    await versioned.set('a', data, [{typename: 'User', id: '1'}], Infinity);
+    await versioned.set('b', data, [{typename: 'User', id: '2'}], Infinity);
+    await tick(10);
+    await versioned.invalidate([{typename: 'User', id: '1'}]);
+
+    const lines: string[] = [];
+    const stream = new PassThrough();
+    stream.on('data', chunk => lines.push(chunk.toString()));
+    const exported = await versioned.exportEntries(stream);
+    stream.end();
+
+    expect(exported).toEqual({exported: 1, skipped: 1});
+    expect(JSON.parse(lines.join('')).key).toEqual('b');
+  });
+
+  test('purge all entries of the collection', async () => {
+    const data = {data: {users: []}};
+    await cache.set('a', data, [], Infinity);
+    await cache.set('b', data, [], Infinity);
+    await tick(10);
+
+    await cache.purgeCollection();
+    expect((await col.get()).size).toEqual(0);
+    expect(await cache.get('a')).toBeUndefined();
+  });
+
+  test('delete expired entries within the budget', async () => {
+    const data = {data: {users: []}};
+    for (const id of ['a', 'b', 'c']) {
+      await cache.set(id, data, [], 1);
+    }
+    await cache.set('d', data, [], Infinity);
+    await tick(10);
+
+    const dryRun = await cache.deleteExpiredCacheEntry({dryRun: true});
+    expect(dryRun).toEqual(expect.objectContaining({completed: true}));
+    expect(dryRun.deleted.expired).toEqual(3);
+    expect(dryRun.batches).toEqual(0);
+
+    const first = await cache.deleteExpiredCacheEntry({
+      maxDocuments: 2,
+      batchSize: 1,
+    });
+    expect(first.completed).toBe(false);
+    expect(first.cursor).toEqual(expect.objectContaining({phase: 'entries'}));
+    expect(first.deleted.expired).toEqual(2);
+    expect(first.batches).toEqual(2);
+
+    const second = await cache.deleteExpiredCacheEntry({
+      cursor: JSON.parse(JSON.stringify(first.cursor)),
+    });
+    expect(second.completed).toBe(true);
+    expect(second.cursor).toBeUndefined();
+    expect(second.deleted.expired).toEqual(1);
+
+    expect(await cache.get('d')).toEqual(data);
+  });
 });
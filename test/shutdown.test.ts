@@ -0,0 +1,37 @@
+import {CacheFirestore, drainOnShutdown} from '../src/index';
+
+describe('drainOnShutdown', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should close cache and raise the signal again', async () => {
+    const close = jest.fn(async () => true);
+    const cache = {close} as unknown as CacheFirestore;
+    const kill = jest.spyOn(process, 'kill').mockImplementation(() => true);
+
+    const listeners = process.listenerCount('SIGUSR2');
+    const remove = drainOnShutdown(cache, {
+      timeoutMs: 100,
+      signals: ['SIGUSR2'],
+    });
+    expect(process.listenerCount('SIGUSR2')).toEqual(listeners + 1);
+
+    process.emit('SIGUSR2', 'SIGUSR2');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(close).toHaveBeenCalledWith(100);
+    expect(kill).toHaveBeenCalledWith(process.pid, 'SIGUSR2');
+    expect(process.listenerCount('SIGUSR2')).toEqual(listeners);
+
+    remove();
+  });
+
+  test('should remove listeners', () => {
+    const cache = {close: jest.fn()} as unknown as CacheFirestore;
+    const listeners = process.listenerCount('SIGUSR2');
+    const remove = drainOnShutdown(cache, {signals: ['SIGUSR2']});
+    remove();
+    expect(process.listenerCount('SIGUSR2')).toEqual(listeners);
+  });
+});
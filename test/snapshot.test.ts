@@ -0,0 +1,81 @@
+import {PassThrough, Readable, Writable} from 'stream';
+import {
+  importedExpireAt,
+  readRecords,
+  SnapshotRecord,
+  writeLine,
+} from '../src/snapshot';
+
+const record: SnapshotRecord = {
+  key: 'a',
+  data: {data: {hello: 'world'}},
+  expireAt: '2022-01-01T00:00:10.000Z',
+  ttlMs: 5000,
+  typenames: ['User'],
+  entityIds: ['User#1'],
+};
+
+function readableOf(text: string): Readable {
+  const stream = new PassThrough();
+  stream.end(text);
+  return stream;
+}
+
+async function collect(stream: Readable): Promise<SnapshotRecord[]> {
+  const records: SnapshotRecord[] = [];
+  for await (const r of readRecords(stream)) records.push(r);
+  return records;
+}
+
+describe('readRecords', () => {
+  test('should read records line by line', async () => {
+    const text = `${JSON.stringify(record)}\n\n${JSON.stringify({
+      ...record,
+      key: 'b',
+    })}\n`;
+    const records = await collect(readableOf(text));
+    expect(records.map(r => r.key)).toEqual(['a', 'b']);
+  });
+
+  test('should reject invalid lines with the line number', async () => {
+    await expect(
+      collect(readableOf(`${JSON.stringify(record)}\n{`))
+    ).rejects.toThrow('invalid JSON at line 2');
+    await expect(collect(readableOf('{"key":"a"}'))).rejects.toThrow(
+      'invalid snapshot record at line 1'
+    );
+  });
+});
+
+describe('writeLine', () => {
+  test('should wait for the stream to drain', async () => {
+    const written: string[] = [];
+    const stream = new Writable({
+      highWaterMark: 1,
+      write(chunk, _, callback) {
+        written.push(chunk.toString());
+        setImmediate(callback);
+      },
+    });
+
+    await writeLine(stream, {a: 1});
+    await writeLine(stream, {b: 2});
+    expect(written).toEqual(['{"a":1}\n', '{"b":2}\n']);
+  });
+});
+
+describe('importedExpireAt', () => {
+  const now = Date.parse('2022-01-01T00:00:00.000Z');
+
+  test('should keep expireAt of the snapshot', () => {
+    expect(importedExpireAt(record, true, now)).toEqual(
+      new Date(record.expireAt as string)
+    );
+    expect(importedExpireAt({...record, expireAt: null}, true, now)).toBeNull();
+  });
+
+  test('should expire after the remaining time on export', () => {
+    expect(importedExpireAt(record, false, now)).toEqual(new Date(now + 5000));
+    expect(importedExpireAt({...record, ttlMs: null}, false, now)).toBeNull();
+  });
+});
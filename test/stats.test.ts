@@ -0,0 +1,32 @@
+import {createDeletionStatsRecorder} from '../src/stats';
+
+describe('createDeletionStatsRecorder', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should sum results by reason', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const stats = createDeletionStatsRecorder();
+
+    stats.add('typename', {deleted: 3, batches: 1});
+    stats.add('typename', {deleted: 2, batches: 1});
+    stats.add('expired', {deleted: 1, batches: 1});
+    stats.add(undefined, {deleted: 10, batches: 2});
+    now.mockReturnValue(1500);
+
+    expect(stats.result()).toEqual({
+      deleted: {
+        typename: 5,
+        entity: 0,
+        tag: 0,
+        operation: 0,
+        coordinate: 0,
+        partition: 0,
+        expired: 1,
+      },
+      batches: 5,
+      elapsedMs: 500,
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import {createTrace, Span, Tracer} from '../src/tracing';
+
+function createTracer() {
+  const spans: {name: string; span: Span}[] = [];
+  const tracer: Tracer = {
+    startActiveSpan(name, fn) {
+      const span = {
+        setAttribute: jest.fn(),
+        recordException: jest.fn(),
+        setStatus: jest.fn(),
+        end: jest.fn(),
+      };
+      spans.push({name, span});
+      return fn(span) as ReturnType<typeof fn>;
+    },
+  };
+  return {tracer, spans};
+}
+
+describe('createTrace', () => {
+  test('should record spans', async () => {
+    const {tracer, spans} = createTracer();
+    const trace = createTrace(tracer);
+
+    expect(await trace('firestore.get', {path: 'a/b'}, async () => 1)).toEqual(
+      1
+    );
+    expect(spans).toHaveLength(1);
+    expect(spans[0].name).toEqual('firestore.get');
+    expect(spans[0].span.setAttribute).toHaveBeenCalledWith('path', 'a/b');
+    expect(spans[0].span.end).toHaveBeenCalled();
+  });
+
+  test('should record errors', async () => {
+    const {tracer, spans} = createTracer();
+    const trace = createTrace(tracer);
+    const error = new Error('failed');
+
+    await expect(
+      trace('firestore.get', {}, () => Promise.reject(error))
+    ).rejects.toBe(error);
+    expect(spans[0].span.recordException).toHaveBeenCalledWith(error);
+    expect(spans[0].span.setStatus).toHaveBeenCalledWith({
+      code: 2,
+      message: 'Error: failed',
+    });
+    expect(spans[0].span.end).toHaveBeenCalled();
+  });
+
+  test('should call the function without a tracer', async () => {
+    const trace = createTrace(undefined);
+    expect(await trace('firestore.get', {}, async () => 1)).toEqual(1);
+  });
+});